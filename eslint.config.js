@@ -20,6 +20,8 @@ export default tseslint.config([
       globals: globals.browser,
     },
     rules: {
+      // Agent#sql is a tagged template that is called for its side effects
+      '@typescript-eslint/no-unused-expressions': ['error', { allowTaggedTemplates: true }],
       '@typescript-eslint/no-unused-vars': [
         'error',
         {
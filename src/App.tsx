@@ -1,32 +1,67 @@
 import { useState, useEffect, useRef } from "react";
 import ReactMarkdown from "react-markdown";
 import { useAgent } from "agents/react";
-import { AgentStatus } from "./types";
-import type { AgentState, StartWorkflowRequest, StartWorkflowResponse } from "./types";
-
-type AppStatus = AgentStatus | "running";
-
-// Step log entry for tracking workflow progress
-interface StepLog {
-  id: string;
-  turn: number;
-  tool: string;
-  message: string;
-  status: "running" | "complete" | "error";
-  timestamp: Date;
-}
+import { AgentStatus, AVAILABLE_MODELS, DEFAULT_MODEL, DEFAULT_PERSONA, PERSONAS } from "./types";
+import type {
+  AgentState,
+  CancelRunResponse,
+  ModelId,
+  PersonaId,
+  RunUsage,
+  ApprovalRequest,
+  PendingApproval,
+  ResetRequest,
+  RunDetail,
+  RunErrorCode,
+  RunFailure,
+  StartWorkflowRequest,
+  StartWorkflowResponse,
+  WorkflowStatusResponse,
+} from "./types";
+import { getSessionAgentId } from "./session";
+import HistoryPanel from "./HistoryPanel";
+import TracePanel from "./TracePanel";
+import { stepsFromEvents } from "./steps";
+import type { StepLog } from "./steps";
+import { INACTIVE_STATUSES, isStaleState, polledRun, runStatuses, shouldPollStatus } from "./runState";
+import type { AppStatus } from "./runState";
+
+// How often the workflow status is polled while the WebSocket is down
+const STATUS_POLL_INTERVAL_MS = 3000;
+
+const errorTitles: Record<RunErrorCode, string> = {
+  gateway_auth: "Gateway authentication failed",
+  rate_limit: "Rate limited",
+  tool_failure: "Tool failed",
+  invalid_response: "Invalid model response",
+  unknown: "Run failed",
+};
 
 export default function App() {
   const defaultTask = "What is the most used model for AI applications written in Python?";
+  const [agentId] = useState(getSessionAgentId);
   const [task, setTask] = useState(defaultTask);
+  const [model, setModel] = useState<ModelId>(DEFAULT_MODEL);
+  const [persona, setPersona] = useState<PersonaId>(DEFAULT_PERSONA);
   const [status, setStatus] = useState<AppStatus>(AgentStatus.IDLE);
   const [result, setResult] = useState<string>("");
+  const [partial, setPartial] = useState<string>("");
+  const [activeModel, setActiveModel] = useState<string | null>(null);
+  const [usage, setUsage] = useState<RunUsage | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<PendingApproval[]>([]);
+  const [runError, setRunError] = useState<RunFailure | null>(null);
   const [steps, setSteps] = useState<StepLog[]>([]);
   const [currentTurn, setCurrentTurn] = useState(0);
   const [instanceId, setInstanceId] = useState<string | null>(null);
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  // Runs waiting behind the one shown, e.g. started by a batch or another tab
+  const [waitingRuns, setWaitingRuns] = useState(0);
+  const [historyOpen, setHistoryOpen] = useState(false);
   const [connectionState, setConnectionState] = useState<"connecting" | "connected" | "disconnected">("connecting");
   const stepsEndRef = useRef<HTMLDivElement | null>(null);
-  const isSubmittingRef = useRef(false);
+  // While a run is starting, state of the run it replaces is ignored. Holds
+  // that run's instanceId (null if none), undefined when nothing is starting.
+  const staleInstanceRef = useRef<string | null | undefined>(undefined);
 
   // Auto-scroll steps panel to bottom when new steps are added
   useEffect(() => {
@@ -38,42 +73,40 @@ export default function App() {
   // Connect to the Agent using the Agents SDK
   useAgent<AgentState>({
     agent: "research-agent",
-    name: "default",
+    name: agentId,
+    // The agent sends its full state whenever a connection opens, so applying
+    // it here also rebuilds the workspace after a reload or reconnect
     onStateUpdate: (newState) => {
-      // Ignore stale state from previous workflow when we just started a new one
-      if (isSubmittingRef.current) return;
+      // Ignore stale state from the previous workflow until the new run reports in
+      if (isStaleState(staleInstanceRef.current, newState)) return;
+      staleInstanceRef.current = undefined;
 
       setStatus(newState.status as AppStatus || AgentStatus.IDLE);
+      if (newState.instanceId) setInstanceId(newState.instanceId);
+      if (newState.task) setTask(newState.task);
+      setQueuePosition(newState.queuePosition ?? null);
+      setWaitingRuns(newState.queuedRuns?.length ?? 0);
 
-      // Extract turn number from state message
-      const turnMatch = newState.message?.match(/Processing turn (\d+)/);
-      const turnNum = turnMatch?.[1] ? parseInt(turnMatch[1]) : 1;
-
-      // Extract tool name and create step log
-      if (newState.message?.includes("Using tool:")) {
-        const toolMatch = newState.message.match(/Using tool: (\w+)/);
-        const toolName = toolMatch?.[1];
-        if (toolMatch && toolName) {
-          const newStep: StepLog = {
-            id: `${Date.now()}-${toolName}`,
-            turn: turnNum,
-            tool: toolName,
-            message: `Executing ${toolName}...`,
-            status: "running",
-            timestamp: new Date(),
-          };
-
-          setSteps((prev) => {
-            const updated = prev.map((s) =>
-              s.status === "running" ? { ...s, status: "complete" as const } : s
-            );
-            return [...updated, newStep];
-          });
-        }
+      // Rebuild the steps from the event log; an empty log keeps the placeholder step
+      if (newState.events && newState.events.length > 0) {
+        setSteps(stepsFromEvents(newState.events));
+      }
+
+      // Steps cut short by a failure or a cancel keep their place in the log
+      if (newState.status === AgentStatus.ERROR || newState.status === AgentStatus.CANCELLED) {
+        setSteps((prev) =>
+          prev.map((s) =>
+            s.status === "running" ? { ...s, status: "error" as const } : s
+          )
+        );
       }
 
       // Handle completion
-      if (newState.status === AgentStatus.COMPLETE) {
+      if (
+        newState.status === AgentStatus.COMPLETE ||
+        newState.status === AgentStatus.BUDGET_EXCEEDED ||
+        newState.status === AgentStatus.MAX_TURNS_REACHED
+      ) {
         setSteps((prev) =>
           prev.map((s) =>
             s.status === "running" ? { ...s, status: "complete" as const } : s
@@ -84,6 +117,11 @@ export default function App() {
       if ("result" in newState) {
         setResult(newState.result ?? "");
       }
+      setPartial(newState.partial ?? "");
+      setPendingApprovals(newState.pendingApprovals ?? []);
+      setActiveModel(newState.model ?? null);
+      setUsage(newState.usage ?? null);
+      setRunError(newState.error ?? null);
     },
     onOpen: () => {
       console.log("Agent connected");
@@ -99,12 +137,50 @@ export default function App() {
     },
   });
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // Fall back to polling the workflow while the WebSocket is down
+  useEffect(() => {
+    if (!instanceId || !shouldPollStatus(connectionState, instanceId, status)) return;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api?instanceId=${encodeURIComponent(instanceId)}`);
+        if (!response.ok) return;
+        const run = polledRun(await response.json() as WorkflowStatusResponse);
+        if (!run) return;
+
+        setStatus(run.status);
+        if (run.output) {
+          setResult(run.output.result ?? "");
+          setPartial("");
+          setUsage(run.output.usage);
+          setRunError(run.output.status === "failed" ? run.output.error : null);
+        }
+      } catch {
+        // Offline; try again on the next tick
+      }
+    };
+
+    const timer = setInterval(poll, STATUS_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [connectionState, instanceId, status]);
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    startRun();
+  };
+
+  // Starts a fresh run, or with retryOf continues that run from its last completed turn
+  const startRun = async (retryOf?: string) => {
     if (!task.trim()) return;
 
+    staleInstanceRef.current = instanceId;
     setStatus("running");
+    setRunError(null);
+    setInstanceId(null);
     setResult("");
+    setPartial("");
+    setActiveModel(null);
+    setUsage(null);
     setSteps([]);
     setCurrentTurn(1);
 
@@ -121,27 +197,37 @@ export default function App() {
     ]);
 
     try {
-      isSubmittingRef.current = true;
-      const requestBody: StartWorkflowRequest = { task };
-      const response = await fetch("/api", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
-      });
+      const requestBody: StartWorkflowRequest = { task, agentId, model, persona };
+      const response = retryOf
+        ? await fetch(
+            `/api/runs/${encodeURIComponent(retryOf)}/retry?agentId=${encodeURIComponent(agentId)}`,
+            { method: "POST" }
+          )
+        : await fetch("/api", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(requestBody),
+          });
+      if (!response.ok) throw new Error(`Failed to start workflow (${response.status})`);
 
       const data = await response.json() as StartWorkflowResponse;
       setInstanceId(data.instanceId);
-      isSubmittingRef.current = false;
+      if (data.queuePosition !== null) {
+        setStatus(AgentStatus.QUEUED);
+        setQueuePosition(data.queuePosition);
+      }
     } catch (error) {
-      isSubmittingRef.current = false;
+      staleInstanceRef.current = undefined;
       setStatus(AgentStatus.ERROR);
+      const message = error instanceof Error ? error.message : "Failed to start workflow";
+      setRunError({ code: "unknown", message, detail: message });
       setSteps((prev) => [
         ...prev.map((s) => ({ ...s, status: "error" as const })),
         {
           id: `${Date.now()}-error`,
           turn: currentTurn,
           tool: "error",
-          message: error instanceof Error ? error.message : "Failed to start workflow",
+          message,
           status: "error" as const,
           timestamp: new Date(),
         },
@@ -149,25 +235,102 @@ export default function App() {
     }
   };
 
+  const handleApproval = async (approval: PendingApproval, approved: boolean) => {
+    // The agent clears the pending approval once the workflow resumes
+    const requestBody: ApprovalRequest = {
+      instanceId: approval.instanceId,
+      toolCallId: approval.toolCallId,
+      approved,
+    };
+    await fetch("/api/approval", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(requestBody),
+    });
+  };
+
+  // Reopen a past run from history
+  const handleSelectRun = async (runId: string) => {
+    const response = await fetch(`/api/runs/${encodeURIComponent(runId)}?agentId=${encodeURIComponent(agentId)}`);
+    if (!response.ok) return;
+    const run = await response.json() as RunDetail;
+
+    setTask(run.task);
+    // Restore the run's setup so Start reruns it the same way
+    setModel(run.params.model);
+    setPersona(run.params.persona);
+    setActiveModel(run.result?.models.at(-1) ?? null);
+    setUsage(run.result?.usage ?? null);
+    setInstanceId(run.instanceId);
+    setStatus(runStatuses[run.status]);
+    setRunError(run.result?.status === "failed" ? run.result.error : null);
+    setResult(run.result?.result ?? "");
+    setPartial("");
+    setSteps(
+      run.steps.map((step) => ({
+        id: `${run.instanceId}-${step.step}`,
+        turn: 0,
+        tool: step.status,
+        message: step.message,
+        status: "complete" as const,
+        timestamp: new Date(step.createdAt),
+      }))
+    );
+    setHistoryOpen(false);
+  };
+
+  // Unlike Reset, Stop keeps the steps and any partial result on screen
+  const handleStop = async () => {
+    if (!instanceId) return;
+
+    const response = await fetch(
+      `/api/runs/${encodeURIComponent(instanceId)}/cancel?agentId=${encodeURIComponent(agentId)}`,
+      { method: "POST" }
+    );
+    if (!response.ok) return;
+    const data = await response.json() as CancelRunResponse;
+    if (data.status === "cancelled") setStatus(AgentStatus.CANCELLED);
+  };
+
   const handleReset = async () => {
     // Terminate workflow and reset agent state
+    const requestBody: ResetRequest = { instanceId, agentId };
     await fetch("/api/reset", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ instanceId }),
+      body: JSON.stringify(requestBody),
     });
 
     setTask(defaultTask);
     setStatus(AgentStatus.IDLE);
     setResult("");
+    setPartial("");
+    setActiveModel(null);
+    setUsage(null);
+    setPendingApprovals([]);
+    setRunError(null);
     setSteps([]);
     setCurrentTurn(0);
     setInstanceId(null);
+    setQueuePosition(null);
+    staleInstanceRef.current = undefined;
   };
 
-  const isRunning = status !== AgentStatus.IDLE && status !== AgentStatus.COMPLETE && status !== AgentStatus.ERROR;
+  const isRunning = !INACTIVE_STATUSES.includes(status);
   const showWorkspace = status !== AgentStatus.IDLE || steps.length > 0;
   const isComplete = status === AgentStatus.COMPLETE;
+  const isBudgetExceeded = status === AgentStatus.BUDGET_EXCEEDED;
+  const isMaxTurnsReached = status === AgentStatus.MAX_TURNS_REACHED;
+  const isCancelled = status === AgentStatus.CANCELLED;
+  const isQueued = status === AgentStatus.QUEUED;
+  // Show streamed text until the final result arrives
+  const displayedResult = result || partial;
+  // The answering model can differ from the selected one after a fallback
+  const activeModelLabel = AVAILABLE_MODELS.find((m) => m.id === activeModel)?.label ?? activeModel;
+
+  const formatUsage = (runUsage: RunUsage) => {
+    return `${runUsage.totalTokens.toLocaleString("en-US")} tokens · $${runUsage.estimatedCostUsd.toFixed(4)}`;
+  };
 
   // Format timestamp
   const formatTime = (date: Date) => {
@@ -213,27 +376,120 @@ export default function App() {
                 />
               </div>
 
+              <select
+                value={persona}
+                onChange={(e) => setPersona(e.target.value as PersonaId)}
+                className="InputCard--select"
+                disabled={isRunning}
+                aria-label="Persona"
+              >
+                {PERSONAS.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+
+              <select
+                value={model}
+                onChange={(e) => setModel(e.target.value as ModelId)}
+                className="InputCard--select"
+                disabled={isRunning}
+                aria-label="Model"
+              >
+                {AVAILABLE_MODELS.map((m) => (
+                  <option key={m.id} value={m.id}>
+                    {m.label}
+                  </option>
+                ))}
+              </select>
+
               <div className="InputCard--actions">
                 {isRunning ? (
                   <>
                     <button type="button" disabled className="Button Button--loading">
                       <span className="Button--spinner" />
-                      Running
+                      {isQueued ? "Queued" : "Running"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={handleStop}
+                      disabled={!instanceId}
+                      className="Button Button--secondary"
+                    >
+                      Stop
                     </button>
                     <button type="button" onClick={handleReset} className="Button Button--secondary">
                       Reset
                     </button>
                   </>
                 ) : (
-                  <button type="submit" disabled={!task.trim()} className="Button Button--primary">
-                    Start
-                  </button>
+                  <>
+                    <button type="submit" disabled={!task.trim()} className="Button Button--primary">
+                      Start
+                    </button>
+                    <button type="button" onClick={() => setHistoryOpen(true)} className="Button Button--secondary">
+                      History
+                    </button>
+                  </>
                 )}
               </div>
             </form>
           </div>
         </div>
 
+        {historyOpen && (
+          <HistoryPanel
+            agentId={agentId}
+            activeInstanceId={instanceId}
+            onSelect={handleSelectRun}
+            onClose={() => setHistoryOpen(false)}
+          />
+        )}
+
+        {/* Tool calls waiting for a human decision */}
+        {pendingApprovals.length > 0 && (
+          <div className="ApprovalCard">
+            <h2 className="ApprovalCard--title">Approval required</h2>
+            {pendingApprovals.map((approval) => (
+              <div key={approval.toolCallId} className="ApprovalCard--item">
+                <div className="ApprovalCard--details">
+                  <span className="ApprovalCard--tool">{approval.tool}</span>
+                  <p className="ApprovalCard--args">{approval.arguments}</p>
+                </div>
+                <div className="ApprovalCard--actions">
+                  <button type="button" onClick={() => handleApproval(approval, true)} className="Button Button--primary">
+                    Approve
+                  </button>
+                  <button type="button" onClick={() => handleApproval(approval, false)} className="Button Button--secondary">
+                    Reject
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Failed run with a way to start it again */}
+        {status === AgentStatus.ERROR && runError && (
+          <div className="ErrorCard">
+            <div className="ErrorCard--details">
+              <h2 className="ErrorCard--title">{errorTitles[runError.code]}</h2>
+              <p className="ErrorCard--message">{runError.message}</p>
+              {runError.detail !== runError.message && (
+                <p className="ErrorCard--detail">{runError.detail}</p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => startRun(instanceId ?? undefined)}
+              className="Button Button--primary"
+            >
+              Retry
+            </button>
+          </div>
+        )}
+
         {/* Workspace: Steps + Result side by side */}
         {showWorkspace && (
           <div className="Workspace">
@@ -244,9 +500,26 @@ export default function App() {
                 {isComplete && (
                   <span className="StepsPanel--badge StepsPanel--badge-complete">Complete</span>
                 )}
-                {isRunning && (
+                {isBudgetExceeded && (
+                  <span className="StepsPanel--badge StepsPanel--badge-warning">Budget exceeded</span>
+                )}
+                {isMaxTurnsReached && (
+                  <span className="StepsPanel--badge StepsPanel--badge-warning">Turn limit reached</span>
+                )}
+                {isCancelled && (
+                  <span className="StepsPanel--badge StepsPanel--badge-warning">Cancelled</span>
+                )}
+                {isQueued && (
+                  <span className="StepsPanel--badge StepsPanel--badge-running">
+                    {queuePosition ? `Queued #${queuePosition}` : "Queued"}
+                  </span>
+                )}
+                {isRunning && !isQueued && (
                   <span className="StepsPanel--badge StepsPanel--badge-running">Running</span>
                 )}
+                {waitingRuns > 0 && (
+                  <span className="StepsPanel--badge StepsPanel--badge-running">{waitingRuns} waiting</span>
+                )}
               </div>
 
               <div className="StepsPanel--list">
@@ -259,6 +532,8 @@ export default function App() {
                             ? "Step--dot-complete"
                             : step.status === "running"
                             ? "Step--dot-running"
+                            : step.status === "notice"
+                            ? "Step--dot-notice"
                             : "Step--dot-error"
                         }`}
                       />
@@ -271,6 +546,8 @@ export default function App() {
                         <span className="Step--time">{formatTime(step.timestamp)}</span>
                       </div>
                       <p className="Step--message">{step.message}</p>
+                      {step.args && <p className="Step--detail">{step.args}</p>}
+                      {step.preview && <p className="Step--detail">{step.preview}</p>}
                     </div>
                   </div>
                 ))}
@@ -282,12 +559,15 @@ export default function App() {
             <div className="ResultPanel">
               <div className="ResultPanel--header">
                 <h2 className="ResultPanel--title">Result</h2>
+                <span className="ResultPanel--model">
+                  {[activeModelLabel, usage && formatUsage(usage)].filter(Boolean).join(" · ")}
+                </span>
               </div>
 
               <div className="ResultPanel--content">
-                {result ? (
+                {displayedResult ? (
                   <div className="ResultPanel--markdown">
-                    <ReactMarkdown>{result}</ReactMarkdown>
+                    <ReactMarkdown>{displayedResult}</ReactMarkdown>
                   </div>
                 ) : (
                   <div className="ResultPanel--empty">
@@ -302,6 +582,11 @@ export default function App() {
             </div>
           </div>
         )}
+
+        {/* Expandable conversation trace for debugging the agent's choices */}
+        {showWorkspace && instanceId && (
+          <TracePanel key={instanceId} agentId={agentId} instanceId={instanceId} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import type { RunListResponse, RunSummary } from "./types";
+
+interface HistoryPanelProps {
+  agentId: string;
+  activeInstanceId: string | null;
+  onSelect: (instanceId: string) => void;
+  onClose: () => void;
+}
+
+const statusLabels: Record<RunSummary["status"], string> = {
+  queued: "Queued",
+  running: "Running",
+  complete: "Complete",
+  max_turns_reached: "Max turns",
+  budget_exceeded: "Budget exceeded",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export default function HistoryPanel({ agentId, activeInstanceId, onSelect, onClose }: HistoryPanelProps) {
+  const [runs, setRuns] = useState<RunSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refresh the list each time the panel opens
+  useEffect(() => {
+    const loadRuns = async () => {
+      try {
+        const response = await fetch(`/api/runs?agentId=${encodeURIComponent(agentId)}`);
+        if (!response.ok) throw new Error(`Failed to load history (${response.status})`);
+        const data = await response.json() as RunListResponse;
+        setRuns(data.runs);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load history");
+      }
+    };
+    loadRuns();
+  }, [agentId]);
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  return (
+    <aside className="HistoryPanel">
+      <div className="HistoryPanel--header">
+        <h2 className="HistoryPanel--title">History</h2>
+        <button type="button" onClick={onClose} className="HistoryPanel--close" aria-label="Close history">
+          ×
+        </button>
+      </div>
+
+      <div className="HistoryPanel--list">
+        {error && <p className="HistoryPanel--empty">{error}</p>}
+        {!error && runs === null && <p className="HistoryPanel--empty">Loading...</p>}
+        {!error && runs?.length === 0 && <p className="HistoryPanel--empty">No runs yet</p>}
+        {runs?.map((run) => (
+          <button
+            key={run.instanceId}
+            type="button"
+            onClick={() => onSelect(run.instanceId)}
+            className={`HistoryItem ${run.instanceId === activeInstanceId ? "HistoryItem-active" : ""}`}
+          >
+            <span className="HistoryItem--task">{run.task}</span>
+            <span className="HistoryItem--meta">
+              {formatDate(run.startedAt)} · {statusLabels[run.status]}
+              {run.turns !== null && ` · ${run.turns} turns`}
+              {run.parentInstanceId && " · Retry"}
+            </span>
+          </button>
+        ))}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import type { TranscriptEntry, TranscriptResponse } from "./types";
+
+interface TracePanelProps {
+  agentId: string;
+  instanceId: string;
+}
+
+export default function TracePanel({ agentId, instanceId }: TracePanelProps) {
+  const [entries, setEntries] = useState<TranscriptEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch on every expand so an in-flight run shows its latest messages
+  const loadTranscript = async () => {
+    try {
+      const response = await fetch(
+        `/api/runs/${encodeURIComponent(instanceId)}/transcript?agentId=${encodeURIComponent(agentId)}`
+      );
+      if (!response.ok) throw new Error(`Failed to load trace (${response.status})`);
+      const data = await response.json() as TranscriptResponse;
+      setEntries(data.entries);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load trace");
+    }
+  };
+
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleTimeString("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  return (
+    <details
+      className="TracePanel"
+      onToggle={(e) => {
+        if (e.currentTarget.open) loadTranscript();
+      }}
+    >
+      <summary className="TracePanel--summary">Trace</summary>
+
+      <div className="TracePanel--list">
+        {error && <p className="TracePanel--empty">{error}</p>}
+        {!error && entries === null && <p className="TracePanel--empty">Loading...</p>}
+        {entries?.map((entry) => (
+          <div key={entry.seq} className="TraceEntry">
+            <div className="TraceEntry--header">
+              <span className="TraceEntry--role">{entry.message.role}</span>
+              {entry.step && <span className="TraceEntry--meta">{entry.step}</span>}
+              {entry.retries !== null && entry.retries > 0 && (
+                <span className="TraceEntry--meta">{entry.retries} retries</span>
+              )}
+              <span className="TraceEntry--meta">{formatTime(entry.createdAt)}</span>
+            </div>
+            {entry.message.content && <pre className="TraceEntry--content">{entry.message.content}</pre>}
+            {entry.message.tool_calls?.map((toolCall) => (
+              <pre key={toolCall.id} className="TraceEntry--content TraceEntry--tool-call">
+                {toolCall.function.name}({toolCall.function.arguments})
+              </pre>
+            ))}
+          </div>
+        ))}
+      </div>
+    </details>
+  );
+}
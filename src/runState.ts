@@ -0,0 +1,63 @@
+import { AgentStatus } from "./types";
+import type { AgentState, RunStatus, WorkflowResult, WorkflowStatusResponse } from "./types";
+
+// "running" stands for a run the client started before the agent reports on it
+export type AppStatus = AgentStatus | "running";
+
+export const runStatuses: Record<RunStatus, AppStatus> = {
+  queued: AgentStatus.QUEUED,
+  running: "running",
+  complete: AgentStatus.COMPLETE,
+  max_turns_reached: AgentStatus.MAX_TURNS_REACHED,
+  budget_exceeded: AgentStatus.BUDGET_EXCEEDED,
+  failed: AgentStatus.ERROR,
+  cancelled: AgentStatus.CANCELLED,
+};
+
+// Statuses in which no workflow is running for this session
+export const INACTIVE_STATUSES: AppStatus[] = [
+  AgentStatus.IDLE,
+  AgentStatus.COMPLETE,
+  AgentStatus.BUDGET_EXCEEDED,
+  AgentStatus.MAX_TURNS_REACHED,
+  AgentStatus.CANCELLED,
+  AgentStatus.ERROR,
+];
+
+// While a run is starting, the agent may still send the state of the run it
+// replaces. staleInstanceId is that run's ID (null if none), undefined when
+// nothing is starting.
+export function isStaleState(staleInstanceId: string | null | undefined, state: AgentState): boolean {
+  return staleInstanceId !== undefined && (state.instanceId ?? null) === staleInstanceId;
+}
+
+// The WebSocket is the main channel; polling only covers a dropped connection
+export function shouldPollStatus(
+  connectionState: "connecting" | "connected" | "disconnected",
+  instanceId: string | null,
+  status: AppStatus,
+): boolean {
+  return connectionState === "disconnected" && instanceId !== null && !INACTIVE_STATUSES.includes(status);
+}
+
+export interface PolledRun {
+  status: AppStatus;
+  // Set when the workflow finished and returned its result
+  output: WorkflowResult | null;
+}
+
+// What a GET /api poll says about the run, null while the workflow is still going
+export function polledRun(data: WorkflowStatusResponse): PolledRun | null {
+  switch (data.status) {
+    case "complete": {
+      const output = data.output as WorkflowResult;
+      return { status: runStatuses[output.status], output };
+    }
+    case "errored":
+      return { status: AgentStatus.ERROR, output: null };
+    case "terminated":
+      return { status: AgentStatus.CANCELLED, output: null };
+    default:
+      return null;
+  }
+}
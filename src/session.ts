@@ -0,0 +1,12 @@
+const AGENT_ID_STORAGE_KEY = "research-agent-id";
+
+// Each browser tab gets its own ResearchAgent so concurrent runs stay isolated.
+// sessionStorage survives a reload, so the page reattaches to the same agent.
+export function getSessionAgentId(): string {
+  const existing = sessionStorage.getItem(AGENT_ID_STORAGE_KEY);
+  if (existing) return existing;
+
+  const agentId = crypto.randomUUID();
+  sessionStorage.setItem(AGENT_ID_STORAGE_KEY, agentId);
+  return agentId;
+}
@@ -0,0 +1,135 @@
+import type { StepEvent } from "./types";
+
+// Step log entry for tracking workflow progress
+export interface StepLog {
+  id: string;
+  turn: number;
+  tool: string;
+  message: string;
+  // Tool call arguments, shown while the call runs and after
+  args?: string | undefined;
+  // Start of the tool result
+  preview?: string | undefined;
+  // Notices mark something the run adjusted on its own, such as a model fallback
+  status: "running" | "complete" | "error" | "notice";
+  timestamp: Date;
+}
+
+function formatDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+// Build the steps panel from the agent's event log. Each LLM turn and each
+// tool call is one step that starts running and is completed by a later event.
+export function stepsFromEvents(events: StepEvent[]): StepLog[] {
+  const steps: StepLog[] = [];
+  const turnSteps = new Map<number, StepLog>();
+  const toolSteps = new Map<string, StepLog>();
+
+  for (const event of events) {
+    switch (event.type) {
+      case "turn_start": {
+        const step: StepLog = {
+          id: event.id,
+          turn: event.turn + 1,
+          tool: "thinking",
+          message: `Planning turn ${event.turn + 1}...`,
+          status: "running",
+          timestamp: new Date(event.at),
+        };
+        turnSteps.set(event.turn, step);
+        steps.push(step);
+        break;
+      }
+
+      case "llm_response": {
+        const message =
+          event.toolCalls.length > 0
+            ? `Requested ${event.toolCalls.join(", ")} (${formatDuration(event.durationMs)})`
+            : `Wrote the answer (${formatDuration(event.durationMs)})`;
+        const step = turnSteps.get(event.turn);
+        if (step) {
+          step.tool = event.model;
+          step.message = message;
+          step.status = "complete";
+        } else {
+          // The final answer turn has no turn_start of its own
+          steps.push({
+            id: event.id,
+            turn: event.turn + 1,
+            tool: event.model,
+            message,
+            status: "complete",
+            timestamp: new Date(event.at),
+          });
+        }
+        break;
+      }
+
+      case "tool_start": {
+        const step: StepLog = {
+          id: event.id,
+          turn: event.turn + 1,
+          tool: event.tool,
+          message: `Executing ${event.tool}...`,
+          args: event.arguments,
+          status: "running",
+          timestamp: new Date(event.at),
+        };
+        toolSteps.set(event.toolCallId, step);
+        steps.push(step);
+        break;
+      }
+
+      case "tool_end": {
+        const step = toolSteps.get(event.toolCallId);
+        if (!step) break;
+        step.status = event.error ? "error" : "complete";
+        step.message = event.error
+          ? `Failed after ${formatDuration(event.durationMs)}: ${event.error}`
+          : `Finished in ${formatDuration(event.durationMs)}`;
+        step.preview = event.resultPreview || undefined;
+        break;
+      }
+
+      case "compaction":
+        steps.push({
+          id: event.id,
+          turn: event.turn + 1,
+          tool: "context",
+          message: `Truncated ${event.compacted} older tool results (~${event.tokensBefore} to ~${event.tokensAfter} tokens)`,
+          status: "notice",
+          timestamp: new Date(event.at),
+        });
+        break;
+
+      case "model_fallback": {
+        // The turn continues on the next model, so its step stays open
+        const step = turnSteps.get(event.turn);
+        if (step) step.tool = event.model;
+        steps.push({
+          id: event.id,
+          turn: event.turn + 1,
+          tool: "fallback",
+          message: `${event.fromModel} failed, switched to ${event.model}: ${event.reason}`,
+          status: "notice",
+          timestamp: new Date(event.at),
+        });
+        break;
+      }
+
+      case "error":
+        steps.push({
+          id: event.id,
+          turn: 0,
+          tool: "error",
+          message: event.message,
+          status: "error",
+          timestamp: new Date(event.at),
+        });
+        break;
+    }
+  }
+
+  return steps;
+}
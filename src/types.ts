@@ -2,9 +2,34 @@
 // This avoids duplicating type definitions
 
 export { AgentStatus } from "../worker/types";
+export { AVAILABLE_MODELS, DEFAULT_MODEL } from "../worker/constants";
+export type { ModelId } from "../worker/constants";
+export { PERSONAS, DEFAULT_PERSONA } from "../worker/personas";
+export type { PersonaId } from "../worker/personas";
 export type {
   AgentState,
+  ApprovalRequest,
+  BatchDetail,
+  BatchItem,
+  BatchProgress,
+  BatchRequest,
+  BatchResponse,
+  CancelRunResponse,
+  PendingApproval,
+  ResetRequest,
+  RunDetail,
+  RunErrorCode,
+  RunFailure,
+  RunListResponse,
+  RunStatus,
+  RunStep,
+  RunSummary,
+  RunUsage,
+  TranscriptEntry,
+  TranscriptResponse,
   StartWorkflowRequest,
   StartWorkflowResponse,
+  StepEvent,
+  WorkflowResult,
   WorkflowStatusResponse,
 } from "../worker/types";
@@ -0,0 +1,49 @@
+// An in-process MCP server standing in for a remote one, so the MCP tool
+// source can be tested without network access
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CfWorkerJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/cfworker-provider.js';
+import type { McpConnect } from '../../worker/mcp';
+
+export const TEAM_OWNERS: Record<string, string> = { 'workers-sdk': 'team-devprod', hono: 'team-frameworks' };
+
+function createLocalMcpServer(): McpServer {
+	const server = new McpServer(
+		{ name: 'local-stand-in', version: '1.0.0' },
+		{ jsonSchemaValidator: new CfWorkerJsonSchemaValidator() },
+	);
+
+	server.registerTool(
+		'lookup_owner',
+		{
+			description: 'Find the internal team that owns a repository',
+			inputSchema: { repo: z.string().describe('Repository name') },
+		},
+		async ({ repo }) => {
+			const owner = TEAM_OWNERS[repo];
+			return owner
+				? { content: [{ type: 'text' as const, text: owner }] }
+				: { content: [{ type: 'text' as const, text: `No owner recorded for ${repo}` }], isError: true };
+		},
+	);
+
+	server.registerTool(
+		'list.services',
+		{ description: 'List internal services' },
+		async () => ({ content: [{ type: 'text' as const, text: 'billing\nsearch' }] }),
+	);
+
+	return server;
+}
+
+// Each connection gets its own server, linked to the client in memory
+export const connectInProcess: McpConnect = async () => {
+	const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+	await createLocalMcpServer().connect(serverTransport);
+
+	const client = new Client({ name: 'test', version: '1.0.0' }, { jsonSchemaValidator: new CfWorkerJsonSchemaValidator() });
+	await client.connect(clientTransport);
+	return client;
+};
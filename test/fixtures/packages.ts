@@ -0,0 +1,85 @@
+// Trimmed registry responses for the package tools, so tests run offline
+
+export const npmSearch = {
+	objects: [
+		{ package: { name: 'hono', version: '4.6.3', description: 'Web framework built on Web Standards' } },
+		{ package: { name: 'itty-router', version: '5.0.18' } },
+	],
+	total: 2,
+};
+
+export const npmPackument = {
+	name: 'hono',
+	description: 'Web framework built on Web Standards',
+	'dist-tags': { latest: '4.6.3' },
+	time: {
+		created: '2021-12-14T22:04:49.000Z',
+		modified: '2024-09-26T10:12:00.000Z',
+		'4.6.2': '2024-09-21T08:30:00.000Z',
+		'4.6.3': '2024-09-26T10:11:00.000Z',
+	},
+	versions: {
+		'4.6.2': { dependencies: {} },
+		'4.6.3': { dependencies: {}, license: 'MIT' },
+	},
+	license: 'MIT',
+	repository: { type: 'git', url: 'git+https://github.com/honojs/hono.git' },
+};
+
+export const npmDownloads = { downloads: 1_234_567, start: '2024-09-20', end: '2024-09-26', package: 'hono' };
+
+export const pypiProject = {
+	info: {
+		name: 'langchain',
+		summary: 'Building applications with LLMs through composability',
+		version: '0.3.1',
+		license: 'MIT',
+		requires_dist: [
+			'pydantic<3.0.0,>=2.7.4',
+			'requests<3,>=2',
+			'langchain-core<0.4.0,>=0.3.6',
+			"langchain-openai; extra == 'openai'",
+		],
+		project_urls: {
+			Homepage: 'https://www.langchain.com',
+			'Source Code': 'https://github.com/langchain-ai/langchain/tree/master/libs/langchain',
+		},
+		home_page: null,
+	},
+	releases: {
+		'0.0.1': [{ upload_time_iso_8601: '2022-10-25T05:00:00.000000Z' }],
+		'0.3.0': [{ upload_time_iso_8601: '2024-09-13T16:00:00.000000Z' }],
+		'0.3.1': [
+			{ upload_time_iso_8601: '2024-09-25T20:00:10.000000Z' },
+			{ upload_time_iso_8601: '2024-09-25T20:00:00.000000Z' },
+		],
+	},
+};
+
+export const pypiStats = {
+	data: { last_day: 1_000, last_week: 7_000, last_month: 30_000 },
+	package: 'langchain',
+	type: 'recent_downloads',
+};
+
+export const pypiSearchHtml = `
+<ul class="unstyled" aria-label="Search results">
+	<li>
+		<a class="package-snippet" href="/project/langchain/">
+			<h3 class="package-snippet__title">
+				<span class="package-snippet__name">langchain</span>
+				<span class="package-snippet__version">0.3.1</span>
+			</h3>
+			<p class="package-snippet__description">Building applications with LLMs through composability</p>
+		</a>
+	</li>
+	<li>
+		<a class="package-snippet" href="/project/llama-index/">
+			<h3 class="package-snippet__title">
+				<span class="package-snippet__name">llama-index</span>
+				<span class="package-snippet__version">0.11.14</span>
+			</h3>
+			<p class="package-snippet__description">Interface between LLMs &amp; your data</p>
+		</a>
+	</li>
+</ul>`;
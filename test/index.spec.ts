@@ -1,9 +1,86 @@
-import { SELF } from 'cloudflare:test';
+import { SELF, env, runInDurableObject } from 'cloudflare:test';
 import { describe, it, expect, beforeEach } from 'vitest';
-import { searchReposTool, getRepoTool } from '../worker/tools';
-import type { StartWorkflowResponse } from '../worker/types';
+import {
+	searchReposTool,
+	getRepoTool,
+	getReadmeTool,
+	listReleasesTool,
+	listContributorsTool,
+	getIssueActivityTool,
+	getCommitActivityTool,
+	searchPackagesTool,
+	getPackageTool,
+	fetchUrlTool,
+	toolRegistry,
+} from '../worker/tools';
+import { readChatCompletionStream } from '../worker/stream';
+import { mapWithConcurrency } from '../worker/concurrency';
+import { approvalDenial, approvalEventType, waitForApproval } from '../worker/approval';
+import type { ApprovalAgent } from '../worker/approval';
+import { addUsage, emptyUsage } from '../worker/usage';
+import { compactMessages, estimateTokens } from '../worker/context';
+import { RunError, toRunFailure } from '../worker/errors';
+import { completedTurns, resumableEntries } from '../worker/resume';
+import { toolError, toolErrorCode } from '../worker/registry';
+import type { ToolContext } from '../worker/registry';
+import { GitHubClient, GitHubRateLimitError } from '../worker/github';
+import { PackageRegistryClient } from '../worker/packages';
+import { WebFetcher, isPrivateAddress } from '../worker/web';
+import { McpClientPool, mcpTool, mcpToolName, parseMcpServers } from '../worker/mcp';
+import { TEAM_OWNERS, connectInProcess } from './fixtures/mcp';
+import * as packageFixtures from './fixtures/packages';
+import type { ResearchAgent } from '../worker/agent';
+import { AgentStatus, StepEventSchema } from '../worker/types';
+import { buildBatchReport, expandTemplate, stoppedChildError } from '../worker/batch';
+import { PERSONAS } from '../worker/personas';
+import { isStaleState, polledRun, shouldPollStatus } from '../src/runState';
+import { stepsFromEvents } from '../src/steps';
+import { MAX_AGENT_TURNS, README_MAX_CHARS } from '../worker/constants';
+import type {
+	BatchItem,
+	CancelRunResponse,
+	ChatMessage,
+	RunListResponse,
+	StartWorkflowResponse,
+	TranscriptEntry,
+	WorkflowParams,
+} from '../worker/types';
+
+// A stand-in for an upstream API such as api.github.com that records each request
+function stubFetch(handler: (request: Request) => Response) {
+	const requests: Request[] = [];
+	const fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+		const request = new Request(input, init);
+		requests.push(request);
+		return handler(request);
+	};
+	return { requests, fetch: fetch as typeof globalThis.fetch };
+}
 
 describe('Durable AI Agent worker', () => {
+	const toolContext: ToolContext = {
+		github: new GitHubClient({ cache: null }),
+		packages: new PackageRegistryClient(),
+		web: new WebFetcher(),
+		mcp: new McpClientPool([]),
+	};
+	// The shared context with some clients swapped, e.g. for a stubbed upstream
+	const toolContextWith = (overrides: Partial<ToolContext>): ToolContext => ({ ...toolContext, ...overrides });
+
+	// Workflow params of a run recorded directly on an agent, without starting a workflow
+	const runParams = (agentId: string, task = 'Find popular TypeScript frameworks'): WorkflowParams => ({
+		task,
+		agentId,
+		toolConcurrency: 4,
+		persona: 'repo-scout',
+		maxTurns: 10,
+		model: 'openai/gpt-4.1-mini',
+		fallbackModels: [],
+		generation: { maxTokens: 1024 },
+		tokenBudget: null,
+		parentInstanceId: null,
+	});
+
 	// Reset agent state before each test
 	beforeEach(async () => {
 		await SELF.fetch('https://example.com/api/reset', {
@@ -20,6 +97,11 @@ describe('Durable AI Agent worker', () => {
 			expect(await response.text()).toBe('Invalid API request');
 		});
 
+		it('returns 404 for an unknown instance', async () => {
+			const response = await SELF.fetch('https://example.com/api?instanceId=does-not-exist');
+			expect(response.status).toBe(404);
+		});
+
 		it('returns workflow status for valid instanceId', async () => {
 			// First create a workflow
 			const createResponse = await SELF.fetch('https://example.com/api', {
@@ -74,6 +156,137 @@ describe('Durable AI Agent worker', () => {
 			const text = await response.text();
 			expect(text).toContain('Task must not be empty');
 		});
+
+		it('routes the workflow to the requested agent', async () => {
+			const response = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Find popular TypeScript frameworks', agentId: 'session-a' }),
+			});
+
+			expect(response.status).toBe(200);
+			const data = (await response.json()) as StartWorkflowResponse;
+			expect(data.agentId).toBe('session-a');
+		});
+
+		it('falls back to the default agent when no agentId is given', async () => {
+			const response = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Find popular TypeScript frameworks' }),
+			});
+
+			const data = (await response.json()) as StartWorkflowResponse;
+			expect(data.agentId).toBe('default');
+		});
+
+		it('rejects a toolConcurrency above the server-side cap', async () => {
+			const response = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Find popular TypeScript frameworks', toolConcurrency: 1000 }),
+			});
+
+			expect(response.status).toBe(400);
+		});
+
+		it('rejects a maxTurns above the server-side cap', async () => {
+			const rejected = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Find popular TypeScript frameworks', maxTurns: MAX_AGENT_TURNS + 1 }),
+			});
+			expect(rejected.status).toBe(400);
+
+			const accepted = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Find popular TypeScript frameworks', maxTurns: 3 }),
+			});
+			expect(accepted.status).toBe(200);
+		});
+
+		it('accepts an allowlisted model with generation parameters', async () => {
+			const response = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					task: 'Find popular TypeScript frameworks',
+					model: 'openai/gpt-4.1-mini',
+					maxTokens: 1024,
+					temperature: 0.2,
+					stop: ['END'],
+				}),
+			});
+
+			expect(response.status).toBe(200);
+		});
+
+		it('rejects a non-positive token budget', async () => {
+			const response = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Find popular TypeScript frameworks', tokenBudget: 0 }),
+			});
+
+			expect(response.status).toBe(400);
+		});
+
+		it('rejects a fallback model outside the allowlist', async () => {
+			const response = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Find popular TypeScript frameworks', fallbackModels: ['someone/unknown-model'] }),
+			});
+
+			expect(response.status).toBe(400);
+		});
+
+		it('accepts a known persona and rejects an unknown one', async () => {
+			const accepted = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Audit licenses of popular ORMs', persona: 'license-auditor' }),
+			});
+			expect(accepted.status).toBe(200);
+
+			const rejected = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Audit licenses of popular ORMs', persona: 'pirate' }),
+			});
+			expect(rejected.status).toBe(400);
+		});
+
+		it('rejects a model outside the allowlist', async () => {
+			const response = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Find popular TypeScript frameworks', model: 'someone/unknown-model' }),
+			});
+
+			expect(response.status).toBe(400);
+		});
+
+		it('rejects out-of-range generation parameters', async () => {
+			const response = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Find popular TypeScript frameworks', temperature: 5 }),
+			});
+
+			expect(response.status).toBe(400);
+		});
+
+		it('rejects workflow creation with an invalid agentId', async () => {
+			const response = await SELF.fetch('https://example.com/api', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ task: 'Find popular TypeScript frameworks', agentId: 'not a valid/name' }),
+			});
+
+			expect(response.status).toBe(400);
+		});
 	});
 
 	describe('API Endpoints - POST /api/reset', () => {
@@ -107,12 +320,253 @@ describe('Durable AI Agent worker', () => {
 			expect(response.status).toBe(200);
 			expect(await response.text()).toBe('OK');
 		});
+
+		it('resets a named agent', async () => {
+			const response = await SELF.fetch('https://example.com/api/reset', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ instanceId: null, agentId: 'session-a' }),
+			});
+
+			expect(response.status).toBe(200);
+			expect(await response.text()).toBe('OK');
+		});
+	});
+
+	describe('API Endpoints - GET /api/runs', () => {
+		it('returns an empty history for a new agent', async () => {
+			const response = await SELF.fetch('https://example.com/api/runs?agentId=history-empty');
+			expect(response.status).toBe(200);
+			const data = (await response.json()) as RunListResponse;
+			expect(data.runs).toEqual([]);
+		});
+
+		it('returns 404 for an unknown run', async () => {
+			const response = await SELF.fetch('https://example.com/api/runs/does-not-exist?agentId=history-empty');
+			expect(response.status).toBe(404);
+		});
+
+		it('returns 404 for the transcript of an unknown run', async () => {
+			const response = await SELF.fetch('https://example.com/api/runs/does-not-exist/transcript?agentId=history-empty');
+			expect(response.status).toBe(404);
+		});
+
+		it('rejects an invalid agentId', async () => {
+			const response = await SELF.fetch('https://example.com/api/runs?agentId=not%20valid');
+			expect(response.status).toBe(400);
+		});
+	});
+
+	describe('API Endpoints - POST /api/runs/:instanceId/cancel', () => {
+		const agentId = 'cancel-test';
+		const params = runParams(agentId);
+		const agent = () => env.RESEARCH_AGENT.get(env.RESEARCH_AGENT.idFromName(agentId));
+		const cancel = (instanceId: string) =>
+			SELF.fetch(`https://example.com/api/runs/${instanceId}/cancel?agentId=${agentId}`, { method: 'POST' });
+
+		it('cancels a run still waiting in the queue', async () => {
+			await agent().enqueueRun('cancel-queued', params, 1);
+			expect((await agent().getRun('cancel-queued'))?.status).toBe('queued');
+
+			const response = await cancel('cancel-queued');
+			expect(((await response.json()) as CancelRunResponse).status).toBe('cancelled');
+			expect((await agent().getRun('cancel-queued'))?.status).toBe('cancelled');
+		});
+
+		it('queues a run behind the active one without replacing its state', async () => {
+			await agent().startRun('queue-active', params);
+			await agent().enqueueRun('queue-waiting', { ...params, task: 'Compare ORMs' }, 1);
+			await agent().updateQueuePosition('queue-waiting', 2);
+
+			const state = await runInDurableObject(agent(), async (instance: ResearchAgent) => instance.state);
+			expect(state.instanceId).toBe('queue-active');
+			expect(state.task).toBe(params.task);
+			expect(state.queuedRuns).toEqual([{ instanceId: 'queue-waiting', task: 'Compare ORMs', position: 2 }]);
+
+			// Cancelling the waiting run leaves the active one alone
+			await cancel('queue-waiting');
+			const after = await runInDurableObject(agent(), async (instance: ResearchAgent) => instance.state);
+			expect(after.status).toBe('running');
+			expect(after.queuedRuns).toEqual([]);
+		});
+
+		it('returns 404 for an unknown run', async () => {
+			const response = await cancel('does-not-exist');
+			expect(response.status).toBe(404);
+		});
+
+		it('marks a running run as cancelled and keeps its history', async () => {
+			await agent().startRun('cancel-once', params);
+
+			const response = await cancel('cancel-once');
+			expect(response.status).toBe(200);
+			const data = (await response.json()) as CancelRunResponse;
+			expect(data.status).toBe('cancelled');
+
+			const run = await agent().getRun('cancel-once');
+			expect(run?.status).toBe('cancelled');
+			expect(run?.endedAt).not.toBeNull();
+			expect(run?.params.task).toBe(params.task);
+		});
+
+		it('is idempotent', async () => {
+			await agent().startRun('cancel-twice', params);
+
+			const first = await cancel('cancel-twice');
+			const second = await cancel('cancel-twice');
+
+			expect(first.status).toBe(200);
+			expect(second.status).toBe(200);
+			expect(((await second.json()) as CancelRunResponse).status).toBe('cancelled');
+		});
+
+		it('leaves a finished run unchanged', async () => {
+			await agent().startRun('cancel-finished', params);
+			await agent().finishRun('cancel-finished', {
+				status: 'complete',
+				turns: 1,
+				result: 'Done',
+				models: ['openai/gpt-4.1-mini'],
+				usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCostUsd: 0 },
+			});
+
+			const response = await cancel('cancel-finished');
+			expect(response.status).toBe(200);
+			expect(((await response.json()) as CancelRunResponse).status).toBe('complete');
+		});
+	});
+
+	describe('API Endpoints - POST /api/runs/:instanceId/retry', () => {
+		const agentId = 'retry-test';
+		const agent = () => env.RESEARCH_AGENT.get(env.RESEARCH_AGENT.idFromName(agentId));
+		const retry = (instanceId: string) =>
+			SELF.fetch(`https://example.com/api/runs/${instanceId}/retry?agentId=${agentId}`, { method: 'POST' });
+
+		it('returns 404 for an unknown run', async () => {
+			const response = await retry('does-not-exist');
+			expect(response.status).toBe(404);
+		});
+
+		it('returns 404 for a run whose workflow instance is gone', async () => {
+			await agent().startRun('retry-orphan', runParams(agentId));
+
+			const response = await retry('retry-orphan');
+			expect(response.status).toBe(404);
+		});
+	});
+
+	describe('API Endpoints - POST /api/batch', () => {
+		const post = (body: unknown) =>
+			SELF.fetch('https://example.com/api/batch', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify(body),
+			});
+
+		it('rejects a batch with both tasks and a template', async () => {
+			const response = await post({ tasks: ['a'], template: 'Compare {{repo}}', variables: [{ repo: 'x' }] });
+			expect(response.status).toBe(400);
+		});
+
+		it('rejects a template without variables', async () => {
+			const response = await post({ template: 'Compare {{repo}}' });
+			expect(response.status).toBe(400);
+		});
+
+		it('rejects an empty task list', async () => {
+			const response = await post({ tasks: [] });
+			expect(response.status).toBe(400);
+		});
+
+		it('rejects a template variable set that misses a placeholder', async () => {
+			const response = await post({ template: 'Compare {{repo}} with {{other}}', variables: [{ repo: 'x' }] });
+			expect(response.status).toBe(400);
+			expect(await response.text()).toContain('other');
+		});
+
+		it('returns 404 for an unknown batch', async () => {
+			const response = await SELF.fetch('https://example.com/api/batch/does-not-exist?agentId=batch-empty');
+			expect(response.status).toBe(404);
+
+			const report = await SELF.fetch('https://example.com/api/batch/does-not-exist/report?agentId=batch-empty');
+			expect(report.status).toBe(404);
+		});
+	});
+
+	describe('Batch Reports', () => {
+		const item = (index: number, overrides: Partial<BatchItem>): BatchItem => ({
+			index,
+			task: `Task ${index + 1}`,
+			agentId: `batch-test-${index}`,
+			instanceId: `run-${index}`,
+			status: 'complete',
+			result: null,
+			error: null,
+			...overrides,
+		});
+
+		it('expands template placeholders', () => {
+			expect(expandTemplate('Compare {{ repo }} with {{other}}', { repo: 'hono', other: 'express' })).toBe(
+				'Compare hono with express',
+			);
+			expect(() => expandTemplate('Compare {{repo}}', {})).toThrow('repo');
+		});
+
+		it('counts failed tasks without dropping the rest of the report', () => {
+			const report = buildBatchReport('batch-1', [
+				item(0, { result: 'Hono is a small web framework.' }),
+				item(1, { status: 'failed', error: 'The run failed unexpectedly.' }),
+				item(2, { status: 'cancelled' }),
+			]);
+
+			expect(report.status).toBe('complete');
+			expect(report.succeeded).toBe(1);
+			expect(report.failed).toBe(2);
+			expect(report.markdown).toContain('Hono is a small web framework.');
+			expect(report.markdown).toContain('failed: The run failed unexpectedly.');
+			expect(report.markdown).toContain('| 3 | Task 3 | cancelled |');
+		});
+
+		it('keeps a batch running while any task is pending', () => {
+			const report = buildBatchReport('batch-2', [item(0, {}), item(1, { status: 'pending', instanceId: null })]);
+			expect(report.status).toBe('running');
+		});
+
+		it('fails a child whose workflow stopped without reporting a result', () => {
+			expect(stoppedChildError({ status: 'running' })).toBeNull();
+			expect(stoppedChildError({ status: 'waiting' })).toBeNull();
+			expect(stoppedChildError({ status: 'errored', error: { name: 'Error', message: 'Out of memory' } })).toBe('Out of memory');
+			expect(stoppedChildError({ status: 'terminated' })).toBe('The run was terminated');
+			expect(stoppedChildError(null)).toContain('no longer exists');
+		});
+	});
+
+	describe('API Endpoints - POST /api/approval', () => {
+		it('rejects a decision without toolCallId', async () => {
+			const response = await SELF.fetch('https://example.com/api/approval', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ instanceId: 'abc', approved: true }),
+			});
+
+			expect(response.status).toBe(400);
+		});
+
+		it('returns 404 for an unknown workflow instance', async () => {
+			const response = await SELF.fetch('https://example.com/api/approval', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ instanceId: 'does-not-exist', toolCallId: 'call_1', approved: true }),
+			});
+
+			expect(response.status).toBe(404);
+		});
 	});
 
 	describe('Tool Functions', () => {
 		describe('search_repos', () => {
 			it('returns search results for valid query', async () => {
-				const result = await searchReposTool.run({ query: 'typescript' });
+				const result = await searchReposTool.run({ query: 'typescript' }, toolContext);
 				expect(result).toBeTruthy();
 				expect(typeof result).toBe('string');
 
@@ -128,7 +582,7 @@ describe('Durable AI Agent worker', () => {
 
 		describe('get_repo', () => {
 			it('returns repository details for valid repo', async () => {
-				const result = await getRepoTool.run({ owner: 'cloudflare', repo: 'workers-sdk' });
+				const result = await getRepoTool.run({ owner: 'cloudflare', repo: 'workers-sdk' }, toolContext);
 				expect(result).toBeTruthy();
 				expect(typeof result).toBe('string');
 
@@ -145,15 +599,901 @@ describe('Durable AI Agent worker', () => {
 			});
 
 			it('handles non-existent repository', async () => {
-				const result = await getRepoTool.run({
-					owner: 'nonexistentuser123',
-					repo: 'nonexistentrepo456',
-				});
+				const result = await getRepoTool.run(
+					{
+						owner: 'nonexistentuser123',
+						repo: 'nonexistentrepo456',
+					},
+					toolContext,
+				);
 				expect(result).toContain('Repo not found');
 			});
 		});
 	});
 
+	describe('GitHub Client', () => {
+		const RESET_AT = 1_900_000_000;
+
+		const rateLimitHeaders = (remaining: number) => ({
+			'X-RateLimit-Limit': '60',
+			'X-RateLimit-Remaining': String(remaining),
+			'X-RateLimit-Reset': String(RESET_AT),
+		});
+
+		it('sends the token to the configured base URL and tracks the rate limit', async () => {
+			const stub = stubFetch(() => Response.json({ full_name: 'cloudflare/workers-sdk' }, { headers: rateLimitHeaders(42) }));
+			const client = new GitHubClient({ token: 'secret', baseUrl: 'http://stub.local/', fetch: stub.fetch, cache: null });
+
+			expect(await client.get('/repos/cloudflare/workers-sdk')).toEqual({ full_name: 'cloudflare/workers-sdk' });
+			expect(stub.requests[0]?.url).toBe('http://stub.local/repos/cloudflare/workers-sdk');
+			expect(stub.requests[0]?.headers.get('Authorization')).toBe('Bearer secret');
+			expect(client.rateLimitFor('core')).toEqual({ limit: 60, remaining: 42, resetAt: RESET_AT * 1000 });
+		});
+
+		it('keeps the search rate limit apart from the core one', async () => {
+			const stub = stubFetch((request) =>
+				request.url.includes('/search/')
+					? new Response('rate limited', {
+							status: 403,
+							headers: { ...rateLimitHeaders(0), 'X-RateLimit-Resource': 'search' },
+						})
+					: Response.json({ ok: true }, { headers: { ...rateLimitHeaders(42), 'X-RateLimit-Resource': 'core' } }),
+			);
+			const client = new GitHubClient({ baseUrl: 'http://stub.local', fetch: stub.fetch, cache: null });
+
+			await expect(client.get('/search/repositories?q=hono')).rejects.toBeInstanceOf(GitHubRateLimitError);
+			// An exhausted search limit does not hold up other endpoints
+			expect(await client.get('/repos/a/b')).toEqual({ ok: true });
+			expect(client.rateLimitFor('search')?.remaining).toBe(0);
+			expect(client.rateLimitFor('core')?.remaining).toBe(42);
+
+			await expect(client.get('/search/repositories?q=vite')).rejects.toBeInstanceOf(GitHubRateLimitError);
+			expect(stub.requests).toHaveLength(2);
+		});
+
+		it('revalidates cached responses with their ETag', async () => {
+			const stub = stubFetch((request) =>
+				request.headers.get('If-None-Match') === '"v1"'
+					? new Response(null, { status: 304 })
+					: Response.json({ stars: 1 }, { headers: { ETag: '"v1"' } }),
+			);
+			const cache = await caches.open('github-client-test');
+			const client = new GitHubClient({ baseUrl: 'http://stub.local', fetch: stub.fetch, cache });
+
+			expect(await client.get('/repos/a/b')).toEqual({ stars: 1 });
+			expect(await client.get('/repos/a/b')).toEqual({ stars: 1 });
+			expect(stub.requests[1]?.headers.get('If-None-Match')).toBe('"v1"');
+		});
+
+		it('reports a rate limit that resets too far in the future', async () => {
+			const stub = stubFetch(() => new Response('rate limited', { status: 403, headers: rateLimitHeaders(0) }));
+			const client = new GitHubClient({ baseUrl: 'http://stub.local', fetch: stub.fetch, cache: null });
+
+			const error = await client.get('/repos/a/b').catch((e: unknown) => e);
+			expect(error).toBeInstanceOf(GitHubRateLimitError);
+			expect((error as GitHubRateLimitError).resetAt).toBe(RESET_AT * 1000);
+
+			// The exhausted limit is remembered, so the next call does not hit the API
+			await expect(client.get('/repos/a/c')).rejects.toBeInstanceOf(GitHubRateLimitError);
+			expect(stub.requests).toHaveLength(1);
+		});
+
+		it('waits out a short rate limit and retries', async () => {
+			let calls = 0;
+			const stub = stubFetch(() =>
+				++calls === 1
+					? new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } })
+					: Response.json({ ok: true }),
+			);
+			const client = new GitHubClient({ baseUrl: 'http://stub.local', fetch: stub.fetch, cache: null });
+
+			expect(await client.get('/repos/a/b')).toEqual({ ok: true });
+			expect(stub.requests).toHaveLength(2);
+		});
+
+		it('turns GitHub failures into structured tool errors', async () => {
+			const stub = stubFetch((request) =>
+				request.url.includes('/search/')
+					? new Response('rate limited', { status: 403, headers: rateLimitHeaders(0) })
+					: new Response('boom', { status: 502 }),
+			);
+			// A fresh client per call, since a rate limited client skips later requests
+			const context = () =>
+				toolContextWith({ github: new GitHubClient({ baseUrl: 'http://stub.local', fetch: stub.fetch, cache: null }) });
+
+			const limited = JSON.parse(await searchReposTool.run({ query: 'orm' }, context()));
+			expect(limited.error).toBe('rate_limited');
+			expect(limited.resetAt).toBe(new Date(RESET_AT * 1000).toISOString());
+
+			const failed = JSON.parse(await getRepoTool.run({ owner: 'a', repo: 'b' }, context()));
+			expect(failed.error).toBe('upstream_error');
+			expect(failed.status).toBe(502);
+		});
+	});
+
+	describe('GitHub Research Tools', () => {
+		const contextFor = (handler: (request: Request) => Response) => {
+			const stub = stubFetch(handler);
+			const context = toolContextWith({
+				github: new GitHubClient({ baseUrl: 'http://stub.local', fetch: stub.fetch, cache: null }),
+			});
+			return { ...stub, context };
+		};
+
+		it('decodes and truncates a README', async () => {
+			const readme = `# Héllo\n${'x'.repeat(5000)}`;
+			const content = btoa(String.fromCharCode(...new TextEncoder().encode(readme)));
+			const { context } = contextFor(() => Response.json({ path: 'README.md', content, encoding: 'base64' }));
+
+			const result = JSON.parse(await getReadmeTool.run({ owner: 'a', repo: 'b' }, context));
+			expect(result.truncated).toBe(true);
+			expect(result.content.startsWith('# Héllo')).toBe(true);
+			expect(result.content.length).toBe(README_MAX_CHARS);
+		});
+
+		it('reports a missing README as not found', async () => {
+			const { context } = contextFor(() => new Response('Not Found', { status: 404 }));
+			const result = JSON.parse(await getReadmeTool.run({ owner: 'a', repo: 'b' }, context));
+			expect(result.error).toBe('not_found');
+		});
+
+		it('lists releases and contributors compactly', async () => {
+			const { context, requests } = contextFor((request) =>
+				request.url.includes('/releases')
+					? Response.json([{ tag_name: 'v2.0.0', name: '', published_at: '2026-01-02T00:00:00Z', prerelease: false, body: 'notes' }])
+					: Response.json([{ login: 'octocat', contributions: 120, avatar_url: 'https://example.com/a.png' }]),
+			);
+
+			expect(JSON.parse(await listReleasesTool.run({ owner: 'a', repo: 'b', limit: 3 }, context))).toEqual([
+				{ tag: 'v2.0.0', name: 'v2.0.0', published: '2026-01-02T00:00:00Z', prerelease: false },
+			]);
+			expect(requests[0]?.url).toBe('http://stub.local/repos/a/b/releases?per_page=3');
+			expect(JSON.parse(await listContributorsTool.run({ owner: 'a', repo: 'b' }, context))).toEqual([
+				{ login: 'octocat', commits: 120 },
+			]);
+		});
+
+		it('counts issues and pull requests over a window', async () => {
+			const { context, requests } = contextFor((request) => {
+				const url = new URL(request.url);
+				if (url.pathname === '/repos/a/b') return Response.json({ full_name: 'a/b', open_issues_count: 12 });
+				const query = url.searchParams.get('q') ?? '';
+				return Response.json({ total_count: query.includes('is:pr') ? 3 : query.includes('is:issue') ? 5 : 10 });
+			});
+
+			const result = JSON.parse(await getIssueActivityTool.run({ owner: 'a', repo: 'b', days: 30 }, context));
+			expect(result.issues).toEqual({ opened: 7, closed: 5 });
+			expect(result.pullRequests).toEqual({ opened: 3, merged: 3 });
+			expect(result.openIssuesAndPullRequests).toBe(12);
+			expect(new URL(requests[0]?.url ?? '').searchParams.get('q')).toBe(`repo:a/b created:>=${result.since}`);
+			// Search has a low rate limit, so only the windowed counts use it
+			expect(requests.filter((request) => request.url.includes('/search/'))).toHaveLength(4);
+		});
+
+		it('returns recent weekly commit counts', async () => {
+			const weeks = Array.from({ length: 52 }, (_, i) => ({ week: 1_700_000_000 + i * 604_800, total: i, days: [] }));
+			const { context } = contextFor(() => Response.json(weeks));
+
+			const result = JSON.parse(await getCommitActivityTool.run({ owner: 'a', repo: 'b', weeks: 2 }, context));
+			expect(result.weeks.map((w: { commits: number }) => w.commits)).toEqual([50, 51]);
+			expect(result.total).toBe(101);
+		});
+
+		it('asks the model to try again while commit statistics are computed', async () => {
+			const { context } = contextFor(() => new Response('{}', { status: 202 }));
+			const result = JSON.parse(await getCommitActivityTool.run({ owner: 'a', repo: 'b' }, context));
+			expect(result.error).toBe('upstream_error');
+			expect(result.status).toBe(202);
+		});
+	});
+
+	describe('Package Tools', () => {
+		// Serves the fixtures for every registry host the client calls
+		const registry = stubFetch((request) => {
+			const { hostname, pathname } = new URL(request.url);
+			if (hostname === 'registry.npmjs.org') {
+				if (pathname === '/-/v1/search') return Response.json(packageFixtures.npmSearch);
+				if (pathname === '/hono') return Response.json(packageFixtures.npmPackument);
+			}
+			if (hostname === 'api.npmjs.org' && pathname === '/downloads/point/last-week/hono') {
+				return Response.json(packageFixtures.npmDownloads);
+			}
+			if (hostname === 'pypi.org') {
+				if (pathname === '/search/') return new Response(packageFixtures.pypiSearchHtml);
+				if (pathname === '/pypi/langchain/json') return Response.json(packageFixtures.pypiProject);
+			}
+			if (hostname === 'pypistats.org') return new Response('Service Unavailable', { status: 503 });
+			return new Response('Not Found', { status: 404 });
+		});
+		const context = toolContextWith({ packages: new PackageRegistryClient({ fetch: registry.fetch }) });
+
+		it('searches npm', async () => {
+			const result = JSON.parse(await searchPackagesTool.run({ ecosystem: 'npm', query: 'web framework' }, context));
+			expect(result).toEqual([
+				{ name: 'hono', version: '4.6.3', description: 'Web framework built on Web Standards' },
+				{ name: 'itty-router', version: '5.0.18', description: null },
+			]);
+		});
+
+		it('searches PyPI from its search page', async () => {
+			const result = JSON.parse(await searchPackagesTool.run({ ecosystem: 'pypi', query: 'llm', limit: 5 }, context));
+			expect(result.map((p: { name: string }) => p.name)).toEqual(['langchain', 'llama-index']);
+			expect(result[1].description).toBe('Interface between LLMs & your data');
+		});
+
+		it('describes an npm package with its GitHub repository', async () => {
+			const result = JSON.parse(await getPackageTool.run({ ecosystem: 'npm', name: 'hono' }, context));
+			expect(result).toMatchObject({
+				latestVersion: '4.6.3',
+				latestReleased: '2024-09-26T10:11:00.000Z',
+				firstReleased: '2021-12-14T22:04:49.000Z',
+				versionCount: 2,
+				dependencies: 0,
+				license: 'MIT',
+				weeklyDownloads: 1_234_567,
+				githubRepo: 'honojs/hono',
+			});
+		});
+
+		it('describes a PyPI package without failing on missing download stats', async () => {
+			const result = JSON.parse(await getPackageTool.run({ ecosystem: 'pypi', name: 'langchain' }, context));
+			expect(result).toMatchObject({
+				latestVersion: '0.3.1',
+				latestReleased: '2024-09-25T20:00:00.000000Z',
+				firstReleased: '2022-10-25T05:00:00.000000Z',
+				versionCount: 3,
+				dependencies: 3,
+				weeklyDownloads: null,
+				githubRepo: 'langchain-ai/langchain',
+			});
+		});
+
+		it('reports an unknown package as not found', async () => {
+			const result = JSON.parse(await getPackageTool.run({ ecosystem: 'npm', name: 'no-such-package' }, context));
+			expect(result.error).toBe('not_found');
+		});
+	});
+
+	describe('Web Fetch Tool', () => {
+		const page = `<!doctype html>
+			<html>
+				<head><title>Hono &amp; Workers</title><style>body { color: red }</style></head>
+				<body>
+					<nav>Home | Docs</nav>
+					<h1>Getting started</h1>
+					<p>Install with <code>npm create hono</code>.</p>
+					<script>console.log('tracking')</script>
+					<ul><li>Fast</li><li>Small</li></ul>
+				</body>
+			</html>`;
+		const site = stubFetch((request) => {
+			const { pathname } = new URL(request.url);
+			if (pathname === '/docs') return new Response(page, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+			if (pathname === '/no-head-end') return new Response('<head><title>T</title><body><p>Hello body</p>', { headers: { 'Content-Type': 'text/html' } });
+			if (pathname === '/icon') return new Response("<svg viewBox='0 0 1 1'/><p>After icon</p>", { headers: { 'Content-Type': 'text/html' } });
+			if (pathname === '/entities') return new Response('<p>A &#99999999; B &#x110000; C &#x41;</p>', { headers: { 'Content-Type': 'text/html' } });
+			if (pathname === '/moved') return new Response(null, { status: 302, headers: { Location: 'http://127.0.0.1/admin' } });
+			return new Response('Not Found', { status: 404 });
+		});
+		const publicDns = async () => ['93.184.216.34'];
+
+		it('extracts readable text from HTML', async () => {
+			const web = new WebFetcher({ fetch: site.fetch, resolve: publicDns });
+			const result = JSON.parse(await fetchUrlTool.run({ url: 'https://hono.dev/docs' }, toolContextWith({ web })));
+
+			expect(result.title).toBe('Hono & Workers');
+			expect(result.content).toBe('Getting started\nInstall with npm create hono.\nFast\nSmall');
+			expect(result.truncated).toBe(false);
+		});
+
+		it('keeps the body when the optional </head> end tag is left out', async () => {
+			const web = new WebFetcher({ fetch: site.fetch, resolve: publicDns });
+			const result = JSON.parse(await fetchUrlTool.run({ url: 'https://hono.dev/no-head-end' }, toolContextWith({ web })));
+
+			expect(result.title).toBe('T');
+			expect(result.content).toBe('Hello body');
+		});
+
+		it('reads past a self-closing inline SVG', async () => {
+			const web = new WebFetcher({ fetch: site.fetch, resolve: publicDns });
+			const result = JSON.parse(await fetchUrlTool.run({ url: 'https://hono.dev/icon' }, toolContextWith({ web })));
+
+			expect(result.error).toBeUndefined();
+			expect(result.content).toBe('After icon');
+		});
+
+		it('replaces out-of-range numeric entities instead of failing', async () => {
+			const web = new WebFetcher({ fetch: site.fetch, resolve: publicDns });
+			const result = JSON.parse(await fetchUrlTool.run({ url: 'https://hono.dev/entities' }, toolContextWith({ web })));
+
+			expect(result.content).toBe('A \uFFFD B \uFFFD C A');
+		});
+
+		it('truncates to the requested size', async () => {
+			const web = new WebFetcher({ fetch: site.fetch, resolve: publicDns });
+			const result = JSON.parse(await fetchUrlTool.run({ url: 'https://hono.dev/docs', maxChars: 100 }, toolContextWith({ web })));
+			expect(result.truncated).toBe(false);
+
+			const small = new WebFetcher({ fetch: site.fetch, resolve: publicDns, maxChars: 10 });
+			const capped = JSON.parse(await fetchUrlTool.run({ url: 'https://hono.dev/docs', maxChars: 100 }, toolContextWith({ web: small })));
+			expect(capped.content).toBe('Getting st');
+			expect(capped.truncated).toBe(true);
+		});
+
+		it('enforces the allow and deny lists', async () => {
+			const web = new WebFetcher({ fetch: site.fetch, resolve: publicDns, allow: ['hono.dev'], deny: ['blog.hono.dev'] });
+
+			const allowed = JSON.parse(await fetchUrlTool.run({ url: 'https://www.hono.dev/docs' }, toolContextWith({ web })));
+			expect(allowed.error).toBeUndefined();
+			const denied = JSON.parse(await fetchUrlTool.run({ url: 'https://blog.hono.dev/docs' }, toolContextWith({ web })));
+			expect(denied.error).toBe('blocked_url');
+			const elsewhere = JSON.parse(await fetchUrlTool.run({ url: 'https://example.com/docs' }, toolContextWith({ web })));
+			expect(elsewhere.error).toBe('blocked_url');
+		});
+
+		it('blocks private addresses, including behind DNS and redirects', async () => {
+			const web = new WebFetcher({
+				fetch: site.fetch,
+				resolve: async (hostname) => (hostname === 'intranet.example.com' ? ['10.0.0.8'] : ['93.184.216.34']),
+			});
+
+			for (const url of [
+				'http://127.0.0.1/',
+				'http://169.254.169.254/latest/meta-data',
+				'http://[::1]/',
+				'http://localhost:8787/',
+				'https://intranet.example.com/',
+				'https://hono.dev/moved',
+				'file:///etc/passwd',
+			]) {
+				const result = JSON.parse(await fetchUrlTool.run({ url }, toolContextWith({ web })));
+				expect(result.error, url).toBe('blocked_url');
+			}
+		});
+
+		it('recognizes private address ranges', () => {
+			expect(
+				['10.1.2.3', '172.16.0.1', '192.168.0.1', '100.64.0.1', 'fd00::1', '::ffff:a00:1', '::a00:1', '64:ff9b::a00:1'].every(
+					isPrivateAddress,
+				),
+			).toBe(true);
+			expect(['8.8.8.8', '172.32.0.1', '2606:4700::1111', '64:ff9b::808:808'].some(isPrivateAddress)).toBe(false);
+		});
+
+		it('reports missing pages as not found', async () => {
+			const web = new WebFetcher({ fetch: site.fetch, resolve: publicDns });
+			const result = JSON.parse(await fetchUrlTool.run({ url: 'https://hono.dev/missing' }, toolContextWith({ web })));
+			expect(result.error).toBe('not_found');
+		});
+	});
+
+	describe('MCP Tools', () => {
+		const servers = parseMcpServers(JSON.stringify([{ name: 'internal', url: 'https://mcp.example.com/mcp' }]));
+		const pool = () => new McpClientPool(servers, connectInProcess);
+
+		it('parses and validates the server list', () => {
+			expect(parseMcpServers(undefined)).toEqual([]);
+			expect(servers).toEqual([{ name: 'internal', url: 'https://mcp.example.com/mcp' }]);
+			expect(() => parseMcpServers('[{"name":"has spaces","url":"https://mcp.example.com"}]')).toThrow('MCP_SERVERS');
+			expect(() => parseMcpServers('[{"name":"internal",')).toThrow('Invalid MCP_SERVERS');
+		});
+
+		it('only offers MCP tools to personas that opt in', () => {
+			expect(PERSONAS.filter((persona) => persona.mcp).map((persona) => persona.id)).toEqual(['repo-scout']);
+		});
+
+		it('namespaces tool names by server', () => {
+			expect(mcpToolName('internal', 'lookup_owner')).toBe('mcp__internal__lookup_owner');
+			expect(mcpToolName('internal', 'list.services')).toBe('mcp__internal__list_services');
+			expect(mcpToolName('internal', 'x'.repeat(80))).toHaveLength(64);
+		});
+
+		it('discovers tools and merges them into the tool definitions', async () => {
+			const mcp = pool();
+			const discovered = await mcp.listTools();
+			const tools = toolRegistry.subset(['get_repo']);
+			for (const info of discovered) tools.register(mcpTool(info));
+
+			const definitions = tools.definitions();
+			expect(definitions.map((d) => d.function.name)).toEqual([
+				'get_repo',
+				'mcp__internal__lookup_owner',
+				'mcp__internal__list_services',
+			]);
+			const lookup = definitions.find((d) => d.function.name === 'mcp__internal__lookup_owner');
+			expect(lookup?.function.description).toBe('Find the internal team that owns a repository');
+			expect(lookup?.function.parameters.properties).toHaveProperty('repo');
+			expect(lookup?.function.parameters.required).toEqual(['repo']);
+			await mcp.close();
+		});
+
+		it('routes calls to the server that offered the tool', async () => {
+			const mcp = pool();
+			const tools = toolRegistry.subset([]);
+			for (const info of await mcp.listTools()) tools.register(mcpTool(info));
+
+			const result = await tools.execute('mcp__internal__lookup_owner', '{"repo":"hono"}', toolContextWith({ mcp }));
+			expect(result).toBe(TEAM_OWNERS.hono);
+
+			const failed = JSON.parse(await tools.execute('mcp__internal__lookup_owner', '{"repo":"unknown"}', toolContextWith({ mcp })));
+			expect(failed.error).toBe('upstream_error');
+			expect(failed.message).toContain('No owner recorded');
+			await mcp.close();
+		});
+
+		it('skips a server that cannot be reached', async () => {
+			const mcp = new McpClientPool(
+				[...servers, { name: 'offline', url: 'https://offline.example.com/mcp' }],
+				async (server) => {
+					if (server.name === 'offline') throw new Error('connect ECONNREFUSED');
+					return connectInProcess(server);
+				},
+			);
+
+			const discovered = await mcp.listTools();
+			expect(new Set(discovered.map((tool) => tool.server))).toEqual(new Set(['internal']));
+			await mcp.close();
+		});
+	});
+
+	describe('Tool Registry', () => {
+		it('derives JSON Schema definitions from tool input schemas', () => {
+			const definitions = toolRegistry.definitions();
+			const getRepo = definitions.find((d) => d.function.name === 'get_repo');
+
+			expect(getRepo?.type).toBe('function');
+			expect(getRepo?.function.parameters.type).toBe('object');
+			expect(getRepo?.function.parameters.properties).toHaveProperty('owner');
+			expect(getRepo?.function.parameters.required).toEqual(['owner', 'repo']);
+		});
+
+		it('limits a subset to the named tools', async () => {
+			const subset = toolRegistry.subset(['get_repo']);
+			expect(subset.definitions().map((d) => d.function.name)).toEqual(['get_repo']);
+
+			const result = JSON.parse(await subset.execute('search_repos', '{"query":"orm"}', toolContext));
+			expect(result.error).toBe('unknown_tool');
+		});
+
+		it('only references registered tools from personas', () => {
+			for (const persona of PERSONAS) {
+				expect(() => toolRegistry.subset(persona.tools)).not.toThrow();
+			}
+		});
+
+		it('reads the code back from a structured error', () => {
+			expect(toolErrorCode(toolError('approval_denied', 'get_repo', 'Rejected'))).toBe('approval_denied');
+			expect(toolErrorCode('{"name":"workers-sdk"}')).toBeNull();
+			expect(toolErrorCode('not json')).toBeNull();
+		});
+
+		it('returns a structured error for invalid arguments', async () => {
+			const result = JSON.parse(await toolRegistry.execute('search_repos', JSON.stringify({ limit: 'five' }), toolContext));
+
+			expect(result.error).toBe('invalid_arguments');
+			expect(result.tool).toBe('search_repos');
+			expect(result.issues.map((i: { path: string }) => i.path)).toEqual(['query', 'limit']);
+		});
+
+		it('returns a structured error for malformed JSON', async () => {
+			const result = JSON.parse(await toolRegistry.execute('get_repo', '{"owner":', toolContext));
+			expect(result.error).toBe('invalid_json');
+		});
+
+		it('returns a structured error for unknown tools', async () => {
+			const result = JSON.parse(await toolRegistry.execute('delete_repo', '{}', toolContext));
+			expect(result.error).toBe('unknown_tool');
+			expect(result.available).toContain('search_repos');
+		});
+	});
+
+	describe('Tool Approval', () => {
+		const toolCall = { id: 'call.1', type: 'function' as const, function: { name: 'fetch_url', arguments: '{"url":"https://hono.dev"}' } };
+
+		// Records the approval requests and resolutions the gate makes
+		const fakeAgent = () => {
+			const calls: string[] = [];
+			const agent: ApprovalAgent = {
+				requestApproval: async (approval) => {
+					calls.push(`request ${approval.tool} ${approval.toolCallId}`);
+				},
+				resolveApproval: async (toolCallId) => {
+					calls.push(`resolve ${toolCallId}`);
+				},
+			};
+			return { calls, agent };
+		};
+
+		// A step whose waitForEvent resolves with the given decision, or rejects like a timeout
+		const fakeStep = (approved: boolean | null) => {
+			const waits: { name: string; type: string }[] = [];
+			const step = {
+				waitForEvent: async (name: string, options: { type: string }) => {
+					waits.push({ name, type: options.type });
+					if (approved === null) throw new Error('Timed out waiting for event');
+					return { payload: { approved }, timestamp: new Date(), type: options.type };
+				},
+			} as unknown as Parameters<typeof waitForApproval>[0];
+			return { waits, step };
+		};
+
+		it('builds event types that only use allowed characters', () => {
+			expect(approvalEventType('toolu_01AbC-9')).toBe('approval-toolu_01AbC-9');
+			expect(approvalEventType('call.1:2')).toBe('approval-call_1_2');
+		});
+
+		it('marks fetch_url and MCP tools as needing approval', () => {
+			expect(toolRegistry.requiresApproval('fetch_url')).toBe(true);
+			expect(toolRegistry.requiresApproval('get_repo')).toBe(false);
+
+			const info = { server: 'internal', name: 'lookup_owner', description: '', inputSchema: '{"type":"object"}' };
+			expect(mcpTool({ ...info, requiresApproval: true }).requiresApproval).toBe(true);
+			expect(mcpTool({ ...info, requiresApproval: false }).requiresApproval).toBe(false);
+		});
+
+		it('runs the call once the user approves it', async () => {
+			const { calls, agent } = fakeAgent();
+			const { waits, step } = fakeStep(true);
+
+			const outcome = await waitForApproval(step, agent, 'run-1', 2, toolCall);
+			expect(outcome).toBe('approved');
+			expect(approvalDenial('fetch_url', outcome)).toBeNull();
+			expect(waits).toEqual([{ name: 'approval-2-call.1', type: 'approval-call_1' }]);
+			expect(calls).toEqual(['request fetch_url call.1', 'resolve call.1']);
+		});
+
+		it('reports approval_denied when the user rejects the call', async () => {
+			const { calls, agent } = fakeAgent();
+			const { step } = fakeStep(false);
+
+			const outcome = await waitForApproval(step, agent, 'run-1', 2, toolCall);
+			expect(outcome).toBe('rejected');
+			const denial = JSON.parse(approvalDenial('fetch_url', outcome) ?? '{}');
+			expect(denial.error).toBe('approval_denied');
+			expect(denial.message).toContain('rejected');
+			expect(calls).toEqual(['request fetch_url call.1', 'resolve call.1']);
+		});
+
+		it('reports approval_denied when no decision arrives in time', async () => {
+			const { calls, agent } = fakeAgent();
+			const { step } = fakeStep(null);
+
+			const outcome = await waitForApproval(step, agent, 'run-1', 2, toolCall);
+			expect(outcome).toBe('timed_out');
+			const denial = JSON.parse(approvalDenial('fetch_url', outcome) ?? '{}');
+			expect(denial.error).toBe('approval_denied');
+			expect(denial.message).toContain('in time');
+			// The pending approval is cleared even though the wait failed
+			expect(calls).toEqual(['request fetch_url call.1', 'resolve call.1']);
+		});
+	});
+
+	describe('Tool Concurrency', () => {
+		it('keeps results in input order and respects the limit', async () => {
+			let inFlight = 0;
+			let maxInFlight = 0;
+			const delays = [30, 5, 20, 1, 10];
+
+			const results = await mapWithConcurrency(delays, 2, async (delay, index) => {
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				await new Promise((resolve) => setTimeout(resolve, delay));
+				inFlight--;
+				return index;
+			});
+
+			expect(results).toEqual([0, 1, 2, 3, 4]);
+			expect(maxInFlight).toBe(2);
+		});
+	});
+
+	describe('Usage Accounting', () => {
+		it('sums token counts and prices them per model', () => {
+			let usage = emptyUsage();
+			usage = addUsage(usage, 'anthropic/claude-sonnet-4-5-20250929', { prompt_tokens: 1000, completion_tokens: 200, total_tokens: 1200 });
+			usage = addUsage(usage, 'openai/gpt-4.1-mini', { prompt_tokens: 500, completion_tokens: 100, total_tokens: 600 });
+
+			expect(usage.promptTokens).toBe(1500);
+			expect(usage.completionTokens).toBe(300);
+			expect(usage.totalTokens).toBe(1800);
+			// 1000 * $3 + 200 * $15 + 500 * $0.4 + 100 * $1.6, per million tokens
+			expect(usage.estimatedCostUsd).toBeCloseTo(0.00636, 8);
+		});
+
+		it('ignores calls without usage', () => {
+			expect(addUsage(emptyUsage(), 'openai/gpt-4.1', undefined)).toEqual(emptyUsage());
+		});
+	});
+
+	describe('Context Compaction', () => {
+		const toolTurn = (id: string, result: string): ChatMessage[] => [
+			{ role: 'assistant', content: null, tool_calls: [{ id, type: 'function', function: { name: 'get_repo', arguments: '{}' } }] },
+			{ role: 'tool', content: result, tool_call_id: id },
+		];
+
+		it('estimates tokens from content and tool call arguments', () => {
+			expect(estimateTokens([{ role: 'user', content: 'a'.repeat(40) }])).toBe(10);
+			expect(estimateTokens(toolTurn('t1', ''))).toBe(Math.ceil('get_repo{}'.length / 4));
+		});
+
+		it('truncates old tool results and keeps recent turns verbatim', () => {
+			const big = 'x'.repeat(1000);
+			const messages: ChatMessage[] = [
+				{ role: 'user', content: 'task' },
+				...toolTurn('t1', big),
+				...toolTurn('t2', big),
+				...toolTurn('t3', big),
+			];
+
+			const result = compactMessages(messages, 2, 100);
+
+			expect(result.compacted).toBe(1);
+			expect(result.messages).toHaveLength(messages.length);
+			expect(result.messages[0]).toEqual(messages[0]);
+			expect(result.messages[2]?.content).toContain('[compacted: 900 more characters omitted]');
+			expect(result.messages[4]?.content).toBe(big);
+			expect(result.messages[6]?.content).toBe(big);
+			expect(result.tokensAfter).toBeLessThan(result.tokensBefore);
+		});
+
+		it('leaves already compacted results alone on a later pass', () => {
+			const big = 'x'.repeat(1000);
+			const messages: ChatMessage[] = [{ role: 'user', content: 'task' }, ...toolTurn('t1', big), ...toolTurn('t2', big)];
+
+			const first = compactMessages(messages, 1, 100);
+			const second = compactMessages([...first.messages, ...toolTurn('t3', big)], 1, 100);
+
+			expect(second.compacted).toBe(1);
+			expect(second.messages[2]?.content).toBe(first.messages[2]?.content);
+			expect(second.messages[2]?.content).toContain('[compacted: 900 more characters omitted]');
+			expect(second.messages[4]?.content).toContain('[compacted: 900 more characters omitted]');
+
+			// Nothing new to truncate, so no compaction is reported
+			expect(compactMessages(second.messages, 1, 100).compacted).toBe(0);
+		});
+	});
+
+	describe('Streaming', () => {
+		const toStream = (events: unknown[]) =>
+			new Response(events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n').body!;
+
+		it('assembles text deltas into a completion', async () => {
+			const deltas: string[] = [];
+			const response = await readChatCompletionStream(
+				toStream([
+					{ id: 'c1', model: 'm', choices: [{ index: 0, delta: { role: 'assistant', content: 'Hello' }, finish_reason: null }] },
+					{ id: 'c1', model: 'm', choices: [{ index: 0, delta: { content: ' world' }, finish_reason: null }] },
+					{ id: 'c1', model: 'm', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+				]),
+				(delta) => {
+					deltas.push(delta);
+				},
+			);
+
+			expect(deltas).toEqual(['Hello', ' world']);
+			expect(response.id).toBe('c1');
+			expect(response.choices[0]?.message.content).toBe('Hello world');
+			expect(response.choices[0]?.finish_reason).toBe('stop');
+			expect(response.choices[0]?.message.tool_calls).toBeUndefined();
+		});
+
+		it('captures usage from the final chunk', async () => {
+			const response = await readChatCompletionStream(
+				toStream([
+					{ id: 'c3', model: 'm', choices: [{ index: 0, delta: { content: 'Hi' }, finish_reason: 'stop' }] },
+					{ id: 'c3', model: 'm', choices: [], usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 } },
+				]),
+				() => {},
+			);
+
+			expect(response.usage).toEqual({ prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 });
+		});
+
+		it('assembles tool call arguments split across chunks', async () => {
+			const response = await readChatCompletionStream(
+				toStream([
+					{
+						id: 'c2',
+						model: 'm',
+						choices: [
+							{
+								index: 0,
+								delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_repo', arguments: '{"owner":' } }] },
+								finish_reason: null,
+							},
+						],
+					},
+					{
+						id: 'c2',
+						model: 'm',
+						choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"cloudflare"}' } }] }, finish_reason: 'tool_calls' }],
+					},
+				]),
+				() => {},
+			);
+
+			expect(response.choices[0]?.finish_reason).toBe('tool_calls');
+			expect(response.choices[0]?.message.tool_calls).toEqual([
+				{ id: 'call_1', type: 'function', function: { name: 'get_repo', arguments: '{"owner":"cloudflare"}' } },
+			]);
+		});
+	});
+
+	describe('Step Events', () => {
+		it('accepts a tool_end event', () => {
+			const result = StepEventSchema.safeParse({
+				type: 'tool_end',
+				id: 'tool-end-0-call_1',
+				at: Date.now(),
+				turn: 0,
+				toolCallId: 'call_1',
+				tool: 'get_repo',
+				resultPreview: '{"name":"workers-sdk"}',
+				durationMs: 120,
+				error: null,
+			});
+			expect(result.success).toBe(true);
+		});
+
+		it('accepts compaction and model fallback events', () => {
+			const compaction = StepEventSchema.safeParse({
+				type: 'compaction',
+				id: 'compact-3',
+				at: Date.now(),
+				turn: 3,
+				compacted: 4,
+				tokensBefore: 90000,
+				tokensAfter: 40000,
+			});
+			const fallback = StepEventSchema.safeParse({
+				type: 'model_fallback',
+				id: 'fallback-3-1',
+				at: Date.now(),
+				turn: 3,
+				fromModel: 'openai/gpt-4.1-mini',
+				model: 'anthropic/claude-haiku-4-5-20251001',
+				reason: 'AI Gateway error: 503',
+			});
+			expect(compaction.success).toBe(true);
+			expect(fallback.success).toBe(true);
+		});
+
+		it('rejects an event missing fields of its type', () => {
+			const result = StepEventSchema.safeParse({ type: 'tool_start', id: 'tool-0-call_1', at: Date.now(), turn: 0 });
+			expect(result.success).toBe(false);
+		});
+
+		it('rejects an unknown event type', () => {
+			const result = StepEventSchema.safeParse({ type: 'thinking', id: 'x', at: Date.now() });
+			expect(result.success).toBe(false);
+		});
+	});
+
+	describe('Run Restore', () => {
+		const agentId = 'restore-test';
+		const params = runParams(agentId, 'Compare TypeScript ORMs');
+		const agent = () => env.RESEARCH_AGENT.get(env.RESEARCH_AGENT.idFromName(agentId));
+		const usage = { promptTokens: 10, completionTokens: 5, totalTokens: 15, estimatedCostUsd: 0 };
+
+		it('keeps the in-flight run in agent state for a reloaded page', async () => {
+			await agent().startRun('restore-run', params);
+			await agent().updateProgress('restore-run', 'turn-0', {
+				status: 'analyzing',
+				message: 'Processing turn 1...',
+				event: { type: 'turn_start', id: 'turn-0', at: 1, turn: 0 },
+			});
+			await agent().updateProgress('restore-run', 'tool-0-call_1', {
+				status: 'fetching',
+				message: 'Running get_repo',
+				event: { type: 'tool_start', id: 'tool-0-call_1', at: 2, turn: 0, toolCallId: 'call_1', tool: 'get_repo', arguments: '{}' },
+			});
+
+			// The state a new connection receives is enough to rebuild the workspace
+			const state = await runInDurableObject(agent(), async (instance: ResearchAgent) => instance.state);
+			expect(state.instanceId).toBe('restore-run');
+			expect(state.task).toBe(params.task);
+			expect(isStaleState(undefined, state)).toBe(false);
+			expect(stepsFromEvents(state.events ?? []).map((step) => [step.tool, step.status])).toEqual([
+				['thinking', 'running'],
+				['get_repo', 'running'],
+			]);
+		});
+
+		it('ignores state of the replaced run until the new run reports in', () => {
+			const state = (instanceId?: string) => ({ status: AgentStatus.COMPLETE, message: '', ...(instanceId ? { instanceId } : {}) });
+
+			expect(isStaleState('old-run', state('old-run'))).toBe(true);
+			expect(isStaleState('old-run', state('new-run'))).toBe(false);
+			// A first run replaces a state that belongs to no run
+			expect(isStaleState(null, state())).toBe(true);
+			expect(isStaleState(null, state('new-run'))).toBe(false);
+		});
+
+		it('polls the workflow only while the WebSocket is down during a run', () => {
+			expect(shouldPollStatus('disconnected', 'run-1', 'running')).toBe(true);
+			expect(shouldPollStatus('disconnected', 'run-1', AgentStatus.AWAITING_APPROVAL)).toBe(true);
+			expect(shouldPollStatus('connected', 'run-1', 'running')).toBe(false);
+			expect(shouldPollStatus('disconnected', null, 'running')).toBe(false);
+			expect(shouldPollStatus('disconnected', 'run-1', AgentStatus.COMPLETE)).toBe(false);
+		});
+
+		it('takes the final status from a polled workflow', () => {
+			expect(polledRun({ status: 'running', output: null })).toBeNull();
+			expect(polledRun({ status: 'waiting', output: null })).toBeNull();
+			expect(polledRun({ status: 'errored', output: null })).toEqual({ status: 'error', output: null });
+			expect(polledRun({ status: 'terminated', output: null })).toEqual({ status: 'cancelled', output: null });
+
+			const output = { status: 'budget_exceeded' as const, turns: 3, result: 'Partial answer', models: ['openai/gpt-4.1-mini'], usage };
+			expect(polledRun({ status: 'complete', output })).toEqual({ status: 'budget_exceeded', output });
+		});
+	});
+
+	describe('Run Resume', () => {
+		const entry = (seq: number, message: ChatMessage): TranscriptEntry => ({
+			seq,
+			step: null,
+			retries: null,
+			createdAt: 0,
+			message,
+		});
+		const toolCall = (id: string) => ({ id, type: 'function' as const, function: { name: 'get_repo', arguments: '{}' } });
+
+		it('keeps every turn whose tool calls all have results', () => {
+			const entries = [
+				entry(0, { role: 'system', content: 'system' }),
+				entry(1, { role: 'user', content: 'task' }),
+				entry(2, { role: 'assistant', content: null, tool_calls: [toolCall('a'), toolCall('b')] }),
+				entry(3, { role: 'tool', content: 'A', tool_call_id: 'a' }),
+				entry(4, { role: 'tool', content: 'B', tool_call_id: 'b' }),
+			];
+
+			expect(resumableEntries(entries)).toEqual(entries);
+			expect(completedTurns(entries)).toBe(1);
+		});
+
+		it('drops a turn that was cut off before all tool results arrived', () => {
+			const entries = [
+				entry(0, { role: 'system', content: 'system' }),
+				entry(1, { role: 'user', content: 'task' }),
+				entry(2, { role: 'assistant', content: null, tool_calls: [toolCall('a')] }),
+				entry(3, { role: 'tool', content: 'A', tool_call_id: 'a' }),
+				entry(4, { role: 'assistant', content: null, tool_calls: [toolCall('b'), toolCall('c')] }),
+				entry(5, { role: 'tool', content: 'B', tool_call_id: 'b' }),
+			];
+
+			expect(resumableEntries(entries).map((e) => e.seq)).toEqual([0, 1, 2, 3]);
+		});
+
+		it('drops the final-answer prompt so the resumed run can keep using tools', () => {
+			const entries = [
+				entry(0, { role: 'system', content: 'system' }),
+				entry(1, { role: 'user', content: 'task' }),
+				entry(2, { role: 'assistant', content: null, tool_calls: [toolCall('a')] }),
+				entry(3, { role: 'tool', content: 'A', tool_call_id: 'a' }),
+				entry(4, { role: 'user', content: 'Write your final answer now.' }),
+			];
+
+			expect(resumableEntries(entries).map((e) => e.seq)).toEqual([0, 1, 2, 3]);
+		});
+	});
+
+	describe('Run Errors', () => {
+		it('categorizes gateway failures by status code', () => {
+			expect(toRunFailure(new Error('AI Gateway error (401): Unauthorized')).code).toBe('gateway_auth');
+			expect(toRunFailure(new Error('AI Gateway error (403): Forbidden')).code).toBe('gateway_auth');
+			expect(toRunFailure(new Error('AI Gateway error (429): Too Many Requests')).code).toBe('rate_limit');
+			expect(toRunFailure(new Error('AI Gateway error (500): Internal Server Error')).code).toBe('unknown');
+		});
+
+		it('keeps the code of a RunError and the underlying message as detail', () => {
+			const failure = toRunFailure(new RunError('tool_failure', 'Tool get_repo failed: GitHub API error: 502'));
+
+			expect(failure.code).toBe('tool_failure');
+			expect(failure.detail).toBe('Tool get_repo failed: GitHub API error: 502');
+			expect(failure.message).not.toBe(failure.detail);
+		});
+	});
+
 	describe('WebSocket Endpoint', () => {
 		it('returns 404 for non-websocket requests to /ws/agent', async () => {
 			const response = await SELF.fetch('https://example.com/ws/agent/test');
@@ -4,14 +4,22 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./worker/index");
-		durableNamespaces: "ResearchAgent";
+		durableNamespaces: "ResearchAgent" | "RunQueue";
 	}
 	interface Env {
 		AI_GATEWAY_TOKEN: string;
 		CF_ACCOUNT_ID: string;
 		CF_GATEWAY_ID: string;
+		GITHUB_TOKEN?: string;
+		GITHUB_API_URL?: string;
+		FETCH_URL_ALLOWLIST?: string;
+		FETCH_URL_DENYLIST?: string;
+		FETCH_URL_MAX_CHARS?: string;
+		MCP_SERVERS?: string;
 		RESEARCH_AGENT: DurableObjectNamespace<import("./worker/index").ResearchAgent>;
+		RUN_QUEUE: DurableObjectNamespace<import("./worker/index").RunQueue>;
 		AGENT_WORKFLOW: Workflow<Parameters<import("./worker/index").AgentWorkflow['run']>[0]['payload']>;
+		BATCH_WORKFLOW: Workflow<Parameters<import("./worker/index").BatchWorkflow['run']>[0]['payload']>;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -1,15 +1,340 @@
 import { Agent } from "agents";
-import { AgentStatus } from "./types";
-import type { AgentState, ProgressUpdate } from "./types";
+import type { AgentContext } from "agents";
+import { AgentStatus, StepEventSchema } from "./types";
+import type {
+  AgentState,
+  BatchDetail,
+  BatchParams,
+  BatchProgress,
+  BatchReport,
+  ChatMessage,
+  PendingApproval,
+  ProgressUpdate,
+  QueuedRun,
+  RunDetail,
+  RunStatus,
+  RunStep,
+  RunSummary,
+  TranscriptEntry,
+  WorkflowParams,
+  WorkflowResult,
+} from "./types";
+
+// Most recent runs returned by listRuns()
+const RUN_HISTORY_LIMIT = 50;
+
+// Statuses in which the broadcast state belongs to no running or waiting run
+const INACTIVE_STATUSES: AgentStatus[] = [
+  AgentStatus.IDLE,
+  AgentStatus.COMPLETE,
+  AgentStatus.MAX_TURNS_REACHED,
+  AgentStatus.CANCELLED,
+  AgentStatus.BUDGET_EXCEEDED,
+  AgentStatus.ERROR,
+];
+
+type RunRow = {
+  instance_id: string;
+  task: string;
+  params: string;
+  status: RunStatus;
+  started_at: number;
+  ended_at: number | null;
+  turns: number | null;
+  result: string | null;
+};
+
+type RunStepRow = {
+  step: string;
+  status: string;
+  message: string;
+  created_at: number;
+};
+
+type BatchRow = {
+  batch_id: string;
+  started_at: number;
+  ended_at: number | null;
+  progress: string;
+  report: string | null;
+};
+
+type TranscriptRow = {
+  seq: number;
+  step: string | null;
+  retries: number | null;
+  created_at: number;
+  message: string;
+};
+
+function toRunSummary(row: RunRow): RunSummary {
+  return {
+    instanceId: row.instance_id,
+    task: row.task,
+    status: row.status,
+    // Older runs were stored before retries existed
+    parentInstanceId: (JSON.parse(row.params) as Partial<WorkflowParams>).parentInstanceId ?? null,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    turns: row.turns,
+  };
+}
 
 export class ResearchAgent extends Agent<Env, AgentState> {
   initialState: AgentState = { status: AgentStatus.IDLE, message: "" };
 
+  constructor(ctx: AgentContext, env: Env) {
+    super(ctx, env);
+
+    // Run history survives reset() and new runs, unlike the broadcast state
+    this.sql`CREATE TABLE IF NOT EXISTS runs (
+      instance_id TEXT PRIMARY KEY,
+      task TEXT NOT NULL,
+      params TEXT NOT NULL,
+      status TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      ended_at INTEGER,
+      turns INTEGER,
+      result TEXT
+    )`;
+    this.sql`CREATE TABLE IF NOT EXISTS run_steps (
+      instance_id TEXT NOT NULL,
+      step TEXT NOT NULL,
+      status TEXT NOT NULL,
+      message TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (instance_id, step)
+    )`;
+    this.sql`CREATE TABLE IF NOT EXISTS run_transcript (
+      instance_id TEXT NOT NULL,
+      seq INTEGER NOT NULL,
+      step TEXT,
+      retries INTEGER,
+      created_at INTEGER NOT NULL,
+      message TEXT NOT NULL,
+      PRIMARY KEY (instance_id, seq)
+    )`;
+    this.sql`CREATE TABLE IF NOT EXISTS batches (
+      batch_id TEXT PRIMARY KEY,
+      params TEXT NOT NULL,
+      started_at INTEGER NOT NULL,
+      ended_at INTEGER,
+      progress TEXT NOT NULL,
+      report TEXT
+    )`;
+  }
+
   async reset(): Promise<void> {
     this.setState({ status: AgentStatus.IDLE, message: "" });
   }
 
-  async updateProgress(progress: ProgressUpdate): Promise<void> {
-    this.setState({ ...this.state, ...progress } as AgentState);
+  // Workflow replays re-send earlier updates, so each step and event is recorded once
+  async updateProgress(instanceId: string, step: string, progress: ProgressUpdate): Promise<void> {
+    this.sql`INSERT OR IGNORE INTO run_steps (instance_id, step, status, message, created_at)
+      VALUES (${instanceId}, ${step}, ${progress.status}, ${progress.message}, ${Date.now()})`;
+
+    const { event, ...update } = progress;
+    let events = this.state.events ?? [];
+    if (event) {
+      const parsed = StepEventSchema.safeParse(event);
+      if (!parsed.success) {
+        console.error(`Dropping invalid step event ${event.id}:`, parsed.error.issues);
+      } else if (!events.some((e) => e.id === parsed.data.id)) {
+        events = [...events, parsed.data];
+      }
+    }
+    this.setState({ ...this.state, ...update, events } as AgentState);
+  }
+
+  // Receives the full text streamed so far, so a retried LLM step simply overwrites it
+  async setPartial(partial: string): Promise<void> {
+    this.setState({ ...this.state, partial });
+  }
+
+  async requestApproval(approval: PendingApproval): Promise<void> {
+    const pending = (this.state.pendingApprovals ?? []).filter(
+      (p) => p.toolCallId !== approval.toolCallId,
+    );
+    this.setState({
+      ...this.state,
+      status: AgentStatus.AWAITING_APPROVAL,
+      message: `Waiting for approval: ${approval.tool}`,
+      pendingApprovals: [...pending, approval],
+    });
+  }
+
+  async resolveApproval(toolCallId: string): Promise<void> {
+    const pending = (this.state.pendingApprovals ?? []).filter(
+      (p) => p.toolCallId !== toolCallId,
+    );
+    // Other tool calls of the turn may still be waiting
+    const next = pending[0];
+    this.setState({
+      ...this.state,
+      status: next ? AgentStatus.AWAITING_APPROVAL : AgentStatus.FETCHING,
+      message: next ? `Waiting for approval: ${next.tool}` : "Approval received",
+      pendingApprovals: pending,
+    });
+  }
+
+  // Recorded before the workflow exists, so a waiting run is in history and can be cancelled
+  async enqueueRun(instanceId: string, params: WorkflowParams, position: number): Promise<void> {
+    this.sql`INSERT OR IGNORE INTO runs (instance_id, task, params, status, started_at)
+      VALUES (${instanceId}, ${params.task}, ${JSON.stringify(params)}, ${"queued"}, ${Date.now()})`;
+
+    // The state of a run that is still going is kept; the new run waits behind it
+    if (this.state.instanceId !== instanceId && !INACTIVE_STATUSES.includes(this.state.status)) {
+      const queued: QueuedRun = { instanceId, task: params.task, position };
+      this.setState({ ...this.state, queuedRuns: [...this.withoutQueuedRun(instanceId), queued] });
+      return;
+    }
+
+    this.setState({
+      status: AgentStatus.QUEUED,
+      message: `Queued at position ${position}`,
+      instanceId,
+      task: params.task,
+      events: [],
+      queuePosition: position,
+      queuedRuns: this.withoutQueuedRun(instanceId),
+    });
+  }
+
+  async updateQueuePosition(instanceId: string, position: number): Promise<void> {
+    if (this.state.queuedRuns?.some((run) => run.instanceId === instanceId)) {
+      const queuedRuns = this.state.queuedRuns.map((run) =>
+        run.instanceId === instanceId ? { ...run, position } : run,
+      );
+      this.setState({ ...this.state, queuedRuns });
+      return;
+    }
+    if (this.state.instanceId !== instanceId || this.state.status !== AgentStatus.QUEUED) return;
+    this.setState({ ...this.state, message: `Queued at position ${position}`, queuePosition: position });
+  }
+
+  async startRun(instanceId: string, params: WorkflowParams): Promise<void> {
+    const [existing] = this.sql<{ status: RunStatus }>`SELECT status FROM runs WHERE instance_id = ${instanceId}`;
+    // A replayed workflow keeps the event log it has built so far
+    if (existing && existing.status !== "queued") return;
+
+    if (existing) {
+      this.sql`UPDATE runs SET status = ${"running"} WHERE instance_id = ${instanceId}`;
+    } else {
+      this.sql`INSERT INTO runs (instance_id, task, params, status, started_at)
+        VALUES (${instanceId}, ${params.task}, ${JSON.stringify(params)}, ${"running"}, ${Date.now()})`;
+    }
+    this.setState({
+      ...this.state,
+      status: AgentStatus.RUNNING,
+      message: "Run started",
+      instanceId,
+      task: params.task,
+      events: [],
+      queuePosition: undefined,
+      queuedRuns: this.withoutQueuedRun(instanceId),
+    });
+  }
+
+  async finishRun(instanceId: string, result: WorkflowResult): Promise<void> {
+    this.sql`UPDATE runs
+      SET status = ${result.status}, ended_at = ${Date.now()}, turns = ${result.turns}, result = ${JSON.stringify(result)}
+      WHERE instance_id = ${instanceId} AND ended_at IS NULL`;
+  }
+
+  // Only the status changes; the transcript, steps and streamed text are kept
+  async cancelRun(instanceId: string): Promise<void> {
+    this.sql`UPDATE runs SET status = ${"cancelled"}, ended_at = ${Date.now()}
+      WHERE instance_id = ${instanceId} AND ended_at IS NULL`;
+    // A run waiting behind the active one only leaves the list
+    if (this.state.queuedRuns?.some((run) => run.instanceId === instanceId)) {
+      this.setState({ ...this.state, queuedRuns: this.withoutQueuedRun(instanceId) });
+      return;
+    }
+    await this.updateProgress(instanceId, "cancelled", {
+      status: AgentStatus.CANCELLED,
+      message: "Run cancelled",
+    });
+    this.setState({ ...this.state, pendingApprovals: [] });
+  }
+
+  // Messages are keyed by position, so replayed workflow code keeps the first record
+  async recordMessage(instanceId: string, entry: Omit<TranscriptEntry, "createdAt">): Promise<void> {
+    this.sql`INSERT OR IGNORE INTO run_transcript (instance_id, seq, step, retries, created_at, message)
+      VALUES (${instanceId}, ${entry.seq}, ${entry.step}, ${entry.retries}, ${Date.now()}, ${JSON.stringify(entry.message)})`;
+  }
+
+  async getTranscript(instanceId: string): Promise<TranscriptEntry[] | null> {
+    const [run] = this.sql<{ instance_id: string }>`SELECT instance_id FROM runs WHERE instance_id = ${instanceId}`;
+    if (!run) return null;
+
+    const rows = this.sql<TranscriptRow>`SELECT seq, step, retries, created_at, message FROM run_transcript
+      WHERE instance_id = ${instanceId} ORDER BY seq`;
+    return rows.map((row) => ({
+      seq: row.seq,
+      step: row.step,
+      retries: row.retries,
+      createdAt: row.created_at,
+      message: JSON.parse(row.message) as ChatMessage,
+    }));
+  }
+
+  async startBatch(batchId: string, params: BatchParams, progress: BatchProgress): Promise<void> {
+    this.sql`INSERT OR IGNORE INTO batches (batch_id, params, started_at, progress)
+      VALUES (${batchId}, ${JSON.stringify(params)}, ${Date.now()}, ${JSON.stringify(progress)})`;
+    this.setState({ ...this.state, batch: progress });
+  }
+
+  async updateBatch(batchId: string, progress: BatchProgress): Promise<void> {
+    this.sql`UPDATE batches SET progress = ${JSON.stringify(progress)}
+      WHERE batch_id = ${batchId} AND ended_at IS NULL`;
+    this.setState({ ...this.state, batch: progress });
+  }
+
+  async finishBatch(batchId: string, report: BatchReport): Promise<void> {
+    const { markdown: _, ...progress } = report;
+    this.sql`UPDATE batches
+      SET progress = ${JSON.stringify(progress)}, report = ${JSON.stringify(report)}, ended_at = ${Date.now()}
+      WHERE batch_id = ${batchId} AND ended_at IS NULL`;
+    this.setState({ ...this.state, batch: progress });
+  }
+
+  async getBatch(batchId: string): Promise<BatchDetail | null> {
+    const [row] = this.sql<BatchRow>`SELECT batch_id, started_at, ended_at, progress, report FROM batches
+      WHERE batch_id = ${batchId}`;
+    if (!row) return null;
+
+    return {
+      batchId: row.batch_id,
+      startedAt: row.started_at,
+      endedAt: row.ended_at,
+      progress: JSON.parse(row.progress) as BatchProgress,
+      report: row.report ? (JSON.parse(row.report) as BatchReport) : null,
+    };
+  }
+
+  async listRuns(): Promise<RunSummary[]> {
+    const rows = this.sql<RunRow>`SELECT * FROM runs ORDER BY started_at DESC LIMIT ${RUN_HISTORY_LIMIT}`;
+    return rows.map(toRunSummary);
+  }
+
+  async getRun(instanceId: string): Promise<RunDetail | null> {
+    const [row] = this.sql<RunRow>`SELECT * FROM runs WHERE instance_id = ${instanceId}`;
+    if (!row) return null;
+
+    const steps = this.sql<RunStepRow>`SELECT step, status, message, created_at FROM run_steps
+      WHERE instance_id = ${instanceId} ORDER BY created_at, rowid`;
+
+    return {
+      ...toRunSummary(row),
+      params: JSON.parse(row.params) as WorkflowParams,
+      result: row.result ? (JSON.parse(row.result) as WorkflowResult) : null,
+      steps: steps.map(
+        (s): RunStep => ({ step: s.step, status: s.status, message: s.message, createdAt: s.created_at }),
+      ),
+    };
+  }
+
+  private withoutQueuedRun(instanceId: string): QueuedRun[] {
+    return (this.state.queuedRuns ?? []).filter((run) => run.instanceId !== instanceId);
   }
 }
@@ -0,0 +1,59 @@
+import type { WorkflowStep } from "cloudflare:workers";
+import { toolError } from "./registry";
+import type { ApprovalDecision, PendingApproval, ToolCall } from "./types";
+import { APPROVAL_TIMEOUT } from "./constants";
+
+// Workflow event type that carries the decision for one tool call. Event types
+// only allow letters, digits, '-' and '_', so anything else in the ID is replaced.
+export function approvalEventType(toolCallId: string): string {
+  return `approval-${toolCallId.replace(/[^A-Za-z0-9_-]/g, "_")}`;
+}
+
+export type ApprovalOutcome = "approved" | "rejected" | "timed_out";
+
+// The ResearchAgent methods the approval gate uses
+export interface ApprovalAgent {
+  requestApproval(approval: PendingApproval): Promise<void>;
+  resolveApproval(toolCallId: string): Promise<void>;
+}
+
+// Pause until POST /api/approval delivers a decision. A timeout counts as a rejection.
+export async function waitForApproval(
+  step: Pick<WorkflowStep, "waitForEvent">,
+  agent: ApprovalAgent,
+  instanceId: string,
+  turn: number,
+  toolCall: ToolCall,
+): Promise<ApprovalOutcome> {
+  await agent.requestApproval({
+    instanceId,
+    toolCallId: toolCall.id,
+    tool: toolCall.function.name,
+    arguments: toolCall.function.arguments,
+  });
+
+  try {
+    const decision = await step.waitForEvent<ApprovalDecision>(`approval-${turn}-${toolCall.id}`, {
+      type: approvalEventType(toolCall.id),
+      timeout: APPROVAL_TIMEOUT,
+    });
+    return decision.payload.approved ? "approved" : "rejected";
+  } catch {
+    return "timed_out";
+  } finally {
+    await agent.resolveApproval(toolCall.id);
+  }
+}
+
+// The tool result that tells the model a call was not run, so it can adapt
+// its plan. Null when the call was approved.
+export function approvalDenial(tool: string, outcome: ApprovalOutcome): string | null {
+  if (outcome === "approved") return null;
+  return toolError(
+    "approval_denied",
+    tool,
+    outcome === "rejected"
+      ? "The user rejected this tool call"
+      : "No approval was given in time, so this tool call was not run",
+  );
+}
@@ -0,0 +1,172 @@
+import { WorkflowEntrypoint } from "cloudflare:workers";
+import type { WorkflowStep } from "cloudflare:workers";
+import type { WorkflowEvent } from "cloudflare:workers";
+import { getRunQueue } from "./queue";
+import type { BatchItem, BatchParams, BatchProgress, BatchReport } from "./types";
+import { BATCH_POLL_INTERVAL } from "./constants";
+
+// Fill {{name}} placeholders; every placeholder must have a value
+export function expandTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`Missing template variable: ${name}`);
+    }
+    return value;
+  });
+}
+
+// Agent IDs stay within AgentIdSchema's 64 characters for a UUID batch ID
+export function childAgentId(batchId: string, index: number): string {
+  return `batch-${batchId}-${index}`;
+}
+
+const SUCCEEDED_STATUSES: BatchItem["status"][] = ["complete", "max_turns_reached", "budget_exceeded"];
+const ACTIVE_STATUSES: BatchItem["status"][] = ["pending", "queued", "running"];
+
+function isActive(item: BatchItem): boolean {
+  return item.status === "queued" || item.status === "running";
+}
+
+// A child whose workflow stopped without calling finishRun() still reads as
+// running in its history, so its instance status decides whether it failed.
+// Null means the child may still finish.
+export function stoppedChildError(status: InstanceStatus | null): string | null {
+  if (status === null) return "The run's workflow instance no longer exists";
+  switch (status.status) {
+    case "errored":
+      return status.error?.message ?? "The run's workflow failed";
+    case "terminated":
+      return "The run was terminated";
+    case "complete":
+      return "The run stopped without reporting a result";
+    default:
+      return null;
+  }
+}
+
+export function batchProgress(batchId: string, items: BatchItem[]): BatchProgress {
+  const done = items.every((item) => !ACTIVE_STATUSES.includes(item.status));
+  const succeeded = items.filter((item) => SUCCEEDED_STATUSES.includes(item.status)).length;
+  const finished = items.filter((item) => !ACTIVE_STATUSES.includes(item.status)).length;
+  return {
+    batchId,
+    status: done ? "complete" : "running",
+    total: items.length,
+    succeeded,
+    failed: finished - succeeded,
+    items,
+  };
+}
+
+// Table cells must stay on one line and must not end the cell early
+function tableCell(text: string): string {
+  return text.replace(/\s+/g, " ").replace(/\|/g, "\\|");
+}
+
+export function buildBatchReport(batchId: string, items: BatchItem[]): BatchReport {
+  const progress = batchProgress(batchId, items);
+
+  const lines = [
+    "# Batch report",
+    "",
+    `${progress.succeeded} of ${progress.total} tasks succeeded.`,
+    "",
+    "| # | Task | Status |",
+    "| --- | --- | --- |",
+    ...items.map((item) => `| ${item.index + 1} | ${tableCell(item.task)} | ${item.status} |`),
+  ];
+  for (const item of items) {
+    lines.push("", `## ${item.index + 1}. ${item.task}`, "");
+    if (item.result) {
+      lines.push(item.result);
+    } else {
+      lines.push(`_No result (${item.status}${item.error ? `: ${item.error}` : ""})_`);
+    }
+  }
+
+  return { ...progress, markdown: lines.join("\n") };
+}
+
+// Fans a batch out as child AgentWorkflow runs through the RunQueue, keeping
+// at most `concurrency` of them in flight, and combines their results. A
+// failed child is reported as such and does not stop the batch.
+export class BatchWorkflow extends WorkflowEntrypoint<Env, BatchParams> {
+  async run(event: WorkflowEvent<BatchParams>, step: WorkflowStep): Promise<BatchReport> {
+    const batchId = event.instanceId;
+    const { agentId, tasks, concurrency, run } = event.payload;
+    const agent = this.env.RESEARCH_AGENT.get(this.env.RESEARCH_AGENT.idFromName(agentId));
+
+    let items: BatchItem[] = tasks.map((task, index) => ({
+      index,
+      task,
+      agentId: childAgentId(batchId, index),
+      instanceId: null,
+      status: "pending",
+      result: null,
+      error: null,
+    }));
+    await agent.startBatch(batchId, event.payload, batchProgress(batchId, items));
+
+    for (let round = 0; ; round++) {
+      // Start pending tasks while there is room
+      const free = concurrency - items.filter(isActive).length;
+      for (const item of items.filter((i) => i.status === "pending").slice(0, Math.max(0, free))) {
+        try {
+          const submission = await step.do(`submit-${item.index}`, () =>
+            getRunQueue(this.env).submit({ ...run, task: item.task, agentId: item.agentId, parentInstanceId: null }),
+          );
+          item.instanceId = submission.instanceId;
+          item.status = submission.queuePosition === null ? "running" : "queued";
+        } catch (error) {
+          item.status = "failed";
+          item.error = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      await agent.updateBatch(batchId, batchProgress(batchId, items));
+      if (!items.some((item) => item.status === "pending" || isActive(item))) break;
+
+      await step.sleep(`wait-${round}`, BATCH_POLL_INTERVAL);
+
+      // Child results are read from each child's run history
+      items = await step.do(`poll-${round}`, () =>
+        Promise.all(
+          items.map(async (item): Promise<BatchItem> => {
+            if (!item.instanceId || !isActive(item)) return item;
+
+            const childAgent = this.env.RESEARCH_AGENT.get(this.env.RESEARCH_AGENT.idFromName(item.agentId));
+            const child = await childAgent.getRun(item.instanceId);
+            if (!child) return item;
+
+            if (child.status === "running") {
+              const error = stoppedChildError(await this.instanceStatus(item.instanceId));
+              if (error) return { ...item, status: "failed", error };
+            }
+
+            const result = child.result;
+            return {
+              ...item,
+              status: child.status,
+              result: result?.result ?? null,
+              error: result?.status === "failed" ? result.error.message : null,
+            };
+          }),
+        ),
+      );
+    }
+
+    const report = buildBatchReport(batchId, items);
+    await agent.finishBatch(batchId, report);
+    return report;
+  }
+
+  private async instanceStatus(instanceId: string): Promise<InstanceStatus | null> {
+    try {
+      const instance = await this.env.AGENT_WORKFLOW.get(instanceId);
+      return await instance.status();
+    } catch {
+      return null;
+    }
+  }
+}
@@ -1,5 +1,119 @@
-/** Default agent ID used for the ResearchAgent Durable Object */
+/** Agent ID used for the ResearchAgent Durable Object when a request does not name one */
 export const DEFAULT_AGENT_ID = "default";
 
-/** Maximum number of agent loop turns before stopping */
+/** Server-side cap on agent loop turns; requests and personas may ask for fewer */
 export const MAX_AGENT_TURNS = 10;
+
+/** Characters of a tool result included in its tool_end step event */
+export const EVENT_RESULT_PREVIEW_CHARS = 200;
+
+/** Minimum interval between streamed text updates pushed to the ResearchAgent */
+export const STREAM_FLUSH_INTERVAL_MS = 250;
+
+/** Workflow runs executing at once across all agents; further submissions wait in the RunQueue */
+export const MAX_CONCURRENT_RUNS = 10;
+
+/** Runs executing at once per agent (one browser session); the agent tracks a single active run */
+export const MAX_CONCURRENT_RUNS_PER_AGENT = 1;
+
+/** How often the RunQueue checks whether admitted runs have stopped without releasing their slot */
+export const QUEUE_RECONCILE_INTERVAL_MS = 30_000;
+
+/** Most tasks accepted by one POST /api/batch request */
+export const MAX_BATCH_TASKS = 50;
+
+/** Child runs of a batch in flight at once, unless the request asks for fewer */
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+/** Upper bound on a batch's concurrency option */
+export const MAX_BATCH_CONCURRENCY = 10;
+
+/** Pause between BatchWorkflow checks on its child runs */
+export const BATCH_POLL_INTERVAL = "15 seconds";
+
+/** Tool calls from a single turn run concurrently, up to this many at once */
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+/** Upper bound for the per-run toolConcurrency option */
+export const MAX_TOOL_CONCURRENCY = 10;
+
+/** How long a tool call waits for human approval before it is treated as rejected */
+export const APPROVAL_TIMEOUT = "1 hour";
+
+/** Models a run may select, all routed through the AI Gateway compat endpoint */
+export const AVAILABLE_MODELS = [
+  { id: "anthropic/claude-sonnet-4-5-20250929", label: "Claude Sonnet 4.5" },
+  { id: "anthropic/claude-haiku-4-5-20251001", label: "Claude Haiku 4.5" },
+  { id: "openai/gpt-4.1", label: "GPT-4.1" },
+  { id: "openai/gpt-4.1-mini", label: "GPT-4.1 mini" },
+  { id: "google-ai-studio/gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+] as const;
+
+export type ModelId = (typeof AVAILABLE_MODELS)[number]["id"];
+
+/** Estimated USD price per million input and output tokens, used for run cost */
+export const MODEL_PRICES: Record<ModelId, { input: number; output: number }> = {
+  "anthropic/claude-sonnet-4-5-20250929": { input: 3, output: 15 },
+  "anthropic/claude-haiku-4-5-20251001": { input: 1, output: 5 },
+  "openai/gpt-4.1": { input: 2, output: 8 },
+  "openai/gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "google-ai-studio/gemini-2.5-flash": { input: 0.3, output: 2.5 },
+};
+
+/** Model used when a request does not select one */
+export const DEFAULT_MODEL: ModelId = "anthropic/claude-sonnet-4-5-20250929";
+
+/** Models tried in order when a turn fails on the selected model */
+export const DEFAULT_FALLBACK_MODELS: ModelId[] = ["openai/gpt-4.1", "google-ai-studio/gemini-2.5-flash"];
+
+/** Default and maximum max_tokens for each LLM call */
+export const DEFAULT_MAX_TOKENS = 4096;
+export const MAX_OUTPUT_TOKENS = 8192;
+
+/** Most stop sequences accepted per run (the OpenAI-compatible limit) */
+export const MAX_STOP_SEQUENCES = 4;
+
+/** Estimated prompt size above which older tool results are compacted */
+export const CONTEXT_COMPACTION_THRESHOLD_TOKENS = 60_000;
+
+/** Most recent assistant turns whose tool results are always kept verbatim */
+export const COMPACTION_KEEP_RECENT_TURNS = 2;
+
+/** Characters of each older tool result kept after compaction */
+export const COMPACTED_TOOL_RESULT_CHARS = 500;
+
+/** GitHub REST API root used by the tools; the GITHUB_API_URL var overrides it */
+export const GITHUB_API_URL = "https://api.github.com";
+
+/** Longest wait for a GitHub rate limit to reset before a tool reports it instead */
+export const GITHUB_RATE_LIMIT_MAX_WAIT_MS = 10_000;
+
+/** How long GitHub responses are cached for conditional (ETag) requests */
+export const GITHUB_CACHE_TTL_SECONDS = 86_400;
+
+/** Characters of a README returned by get_readme */
+export const README_MAX_CHARS = 4000;
+
+/** Package registry APIs used by search_packages and get_package */
+export const NPM_REGISTRY_URL = "https://registry.npmjs.org";
+export const NPM_DOWNLOADS_URL = "https://api.npmjs.org";
+export const PYPI_URL = "https://pypi.org";
+export const PYPI_STATS_URL = "https://pypistats.org";
+
+/** Default and largest number of characters fetch_url returns from a page */
+export const FETCH_URL_MAX_CHARS = 8000;
+
+/** Bytes of a response fetch_url reads before it stops */
+export const FETCH_URL_MAX_BYTES = 2_000_000;
+
+/** How long fetch_url waits for each request */
+export const FETCH_URL_TIMEOUT_MS = 15_000;
+
+/** Redirects fetch_url follows, each checked against the URL policy */
+export const FETCH_URL_MAX_REDIRECTS = 5;
+
+/** DNS-over-HTTPS resolver used to reject hostnames that point at private addresses */
+export const DNS_OVER_HTTPS_URL = "https://cloudflare-dns.com/dns-query";
+
+/** How long an MCP server may take to list or run a tool */
+export const MCP_REQUEST_TIMEOUT_MS = 30_000;
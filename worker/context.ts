@@ -0,0 +1,67 @@
+import type { ChatMessage } from "./types";
+
+// Rough heuristic for English text and JSON; good enough to decide when to compact
+const CHARS_PER_TOKEN = 4;
+
+export interface CompactionResult {
+  messages: ChatMessage[];
+  // Number of tool results that were truncated
+  compacted: number;
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+// Approximate prompt size of the message list, including tool call arguments
+export function estimateTokens(messages: ChatMessage[]): number {
+  let chars = 0;
+  for (const message of messages) {
+    chars += message.content?.length ?? 0;
+    for (const toolCall of message.tool_calls ?? []) {
+      chars += toolCall.function.name.length + toolCall.function.arguments.length;
+    }
+  }
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+// Suffix of a truncated tool result; such results are not truncated again
+const COMPACTED_MARKER = /\.\.\. \[compacted: \d+ more characters omitted\]$/;
+
+// Truncate tool results older than the last `keepRecentTurns` assistant turns.
+// System and user messages, assistant turns and recent tool results are kept
+// verbatim, and no message is removed, so tool_call_id pairing stays valid.
+export function compactMessages(
+  messages: ChatMessage[],
+  keepRecentTurns: number,
+  maxToolResultChars: number,
+): CompactionResult {
+  const assistantIndexes = messages.flatMap((m, i) => (m.role === "assistant" ? [i] : []));
+  // Messages from this index on belong to the recent turns
+  const recentStart = assistantIndexes.at(-keepRecentTurns) ?? 0;
+
+  let compacted = 0;
+  const result = messages.map((message, index) => {
+    const content = message.content;
+    if (
+      index >= recentStart ||
+      message.role !== "tool" ||
+      !content ||
+      content.length <= maxToolResultChars ||
+      COMPACTED_MARKER.test(content)
+    ) {
+      return message;
+    }
+    compacted++;
+    const omitted = content.length - maxToolResultChars;
+    return {
+      ...message,
+      content: `${content.slice(0, maxToolResultChars)}... [compacted: ${omitted} more characters omitted]`,
+    };
+  });
+
+  return {
+    messages: result,
+    compacted,
+    tokensBefore: estimateTokens(messages),
+    tokensAfter: estimateTokens(result),
+  };
+}
@@ -0,0 +1,39 @@
+import type { RunErrorCode, RunFailure } from "./types";
+
+// Thrown by the agent loop with the category already known. Errors that cross
+// a step boundary lose their class, so gateway failures are categorized from
+// the status code in their message instead.
+export class RunError extends Error {
+  readonly code: RunErrorCode;
+
+  constructor(code: RunErrorCode, message: string) {
+    super(message);
+    this.name = "RunError";
+    this.code = code;
+  }
+}
+
+const RUN_ERROR_MESSAGES: Record<RunErrorCode, string> = {
+  gateway_auth: "The AI Gateway rejected the request's credentials. Check AI_GATEWAY_TOKEN and the gateway settings.",
+  rate_limit: "The model provider is rate limiting requests. Wait a moment and retry.",
+  tool_failure: "A tool kept failing after retries.",
+  invalid_response: "No model returned a usable response.",
+  unknown: "The run failed unexpectedly.",
+};
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Matches the message thrown by AgentWorkflow.callAIGateway
+export function gatewayErrorCode(error: unknown): RunErrorCode {
+  const status = Number(/AI Gateway error \((\d{3})\)/.exec(errorText(error))?.[1]);
+  if (status === 401 || status === 403) return "gateway_auth";
+  if (status === 429) return "rate_limit";
+  return "unknown";
+}
+
+export function toRunFailure(error: unknown): RunFailure {
+  const code = error instanceof RunError ? error.code : gatewayErrorCode(error);
+  return { code, message: RUN_ERROR_MESSAGES[code], detail: errorText(error) };
+}
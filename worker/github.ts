@@ -0,0 +1,172 @@
+import { GITHUB_API_URL, GITHUB_CACHE_TTL_SECONDS, GITHUB_RATE_LIMIT_MAX_WAIT_MS } from "./constants";
+
+export interface GitHubClientOptions {
+  // Without a token GitHub allows 60 requests an hour per IP
+  token?: string | undefined;
+  // API root, e.g. a local stub server in tests
+  baseUrl?: string | undefined;
+  fetch?: typeof fetch;
+  // Where responses are kept for conditional requests; null disables caching
+  cache?: Cache | null;
+  maxRateLimitWaitMs?: number;
+}
+
+export interface RateLimit {
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds
+  resetAt: number;
+}
+
+export class GitHubError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "GitHubError";
+    this.status = status;
+  }
+}
+
+export class GitHubRateLimitError extends GitHubError {
+  readonly resetAt: number;
+
+  constructor(status: number, resetAt: number) {
+    super(status, `GitHub rate limit exceeded until ${new Date(resetAt).toISOString()}`);
+    this.name = "GitHubRateLimitError";
+    this.resetAt = resetAt;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// GitHub keeps a separate limit per resource; search is far stricter than core
+function rateLimitResource(path: string): string {
+  if (path.startsWith("/search/code")) return "code_search";
+  return path.startsWith("/search/") ? "search" : "core";
+}
+
+function readRateLimit(headers: Headers): RateLimit | null {
+  const limit = headers.get("X-RateLimit-Limit");
+  const remaining = headers.get("X-RateLimit-Remaining");
+  const reset = headers.get("X-RateLimit-Reset");
+  if (limit === null || remaining === null || reset === null) return null;
+  return { limit: Number(limit), remaining: Number(remaining), resetAt: Number(reset) * 1000 };
+}
+
+// GitHub signals both the primary and the secondary rate limit with 403 or 429
+function rateLimitResetAt(response: Response, known: RateLimit | null): number | null {
+  if (response.status !== 403 && response.status !== 429) return null;
+
+  const rateLimit = readRateLimit(response.headers) ?? known;
+  const retryAfter = response.headers.get("Retry-After");
+  if (retryAfter !== null) return Date.now() + Number(retryAfter) * 1000;
+  if (rateLimit?.remaining === 0) return rateLimit.resetAt;
+  return response.status === 429 ? Date.now() : null;
+}
+
+// Shared GitHub REST client for the tools. Responses are cached with their
+// ETag so repeated lookups are conditional requests, which GitHub does not
+// count against the rate limit. A short rate limit wait is sat out; a longer
+// one is thrown as GitHubRateLimitError for the tool to report.
+export class GitHubClient {
+  private readonly token: string | undefined;
+  private readonly baseUrl: string;
+  private readonly fetcher: typeof fetch;
+  private readonly cache: Cache | null;
+  private readonly maxRateLimitWaitMs: number;
+  // Keyed by the X-RateLimit-Resource a response reports, e.g. core or search
+  private readonly rateLimits = new Map<string, RateLimit>();
+
+  constructor(options: GitHubClientOptions = {}) {
+    this.token = options.token || undefined;
+    this.baseUrl = (options.baseUrl || GITHUB_API_URL).replace(/\/+$/, "");
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+    this.cache = options.cache === undefined ? caches.default : options.cache;
+    this.maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? GITHUB_RATE_LIMIT_MAX_WAIT_MS;
+  }
+
+  // Rate limit of a resource as reported by its most recent response
+  rateLimitFor(resource: string): RateLimit | null {
+    return this.rateLimits.get(resource) ?? null;
+  }
+
+  async get<T>(path: string): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const resource = rateLimitResource(path);
+    const cached = this.cache ? await this.cache.match(url) : undefined;
+
+    // Known to be exhausted: wait or fail without spending a request
+    const known = this.rateLimitFor(resource);
+    if (known?.remaining === 0 && known.resetAt > Date.now()) {
+      await this.waitForReset(403, known.resetAt);
+    }
+
+    let response = await this.request(url, resource, cached);
+    let resetAt = rateLimitResetAt(response, this.rateLimitFor(resource));
+    if (resetAt !== null) {
+      await this.waitForReset(response.status, resetAt);
+      response = await this.request(url, resource, cached);
+      resetAt = rateLimitResetAt(response, this.rateLimitFor(resource));
+      if (resetAt !== null) throw new GitHubRateLimitError(response.status, resetAt);
+    }
+
+    if (response.status === 304 && cached) {
+      return cached.json<T>();
+    }
+    if (!response.ok) {
+      throw new GitHubError(response.status, `GitHub API error (${response.status}) for ${path}`);
+    }
+    // Statistics endpoints answer 202 with no data while GitHub computes them
+    if (response.status === 202) {
+      throw new GitHubError(202, `GitHub is still computing ${path}; try again shortly`);
+    }
+
+    const body = await response.text();
+    const etag = response.headers.get("ETag");
+    if (this.cache && etag) {
+      await this.cache.put(
+        url,
+        new Response(body, {
+          headers: {
+            "Content-Type": "application/json",
+            "Cache-Control": `max-age=${GITHUB_CACHE_TTL_SECONDS}`,
+            ETag: etag,
+          },
+        }),
+      );
+    }
+    return JSON.parse(body) as T;
+  }
+
+  private async request(url: string, resource: string, cached: Response | undefined): Promise<Response> {
+    const headers: Record<string, string> = {
+      Accept: "application/vnd.github+json",
+      "User-Agent": "DurableAgent/1.0",
+      "X-GitHub-Api-Version": "2022-11-28",
+    };
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+    const etag = cached?.headers.get("ETag");
+    if (etag) headers["If-None-Match"] = etag;
+
+    const response = await this.fetcher(url, { headers });
+    const rateLimit = readRateLimit(response.headers);
+    if (rateLimit) {
+      // The path only guesses the resource when GitHub does not name it
+      this.rateLimits.set(response.headers.get("X-RateLimit-Resource") ?? resource, rateLimit);
+    }
+    return response;
+  }
+
+  private async waitForReset(status: number, resetAt: number): Promise<void> {
+    const waitMs = Math.max(0, resetAt - Date.now());
+    if (waitMs > this.maxRateLimitWaitMs) throw new GitHubRateLimitError(status, resetAt);
+    await sleep(waitMs);
+  }
+}
+
+export function createGitHubClient(env: Env): GitHubClient {
+  return new GitHubClient({ token: env.GITHUB_TOKEN, baseUrl: env.GITHUB_API_URL });
+}
@@ -1,15 +1,71 @@
 export { AgentWorkflow } from "./workflow";
 export { ResearchAgent } from "./agent";
+export { RunQueue } from "./queue";
+export { BatchWorkflow } from "./batch";
 
 import { routeAgentRequest } from "agents";
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import { StartWorkflowRequestSchema, ResetRequestSchema } from "./types";
-import type { StartWorkflowResponse, WorkflowStatusResponse } from "./types";
-import { DEFAULT_AGENT_ID } from "./constants";
+import type { z } from "zod";
+import {
+  StartWorkflowRequestSchema,
+  BatchRequestSchema,
+  ResetRequestSchema,
+  ApprovalRequestSchema,
+  RunsQuerySchema,
+} from "./types";
+import type {
+  BatchParams,
+  BatchResponse,
+  CancelRunResponse,
+  RunListResponse,
+  StartWorkflowResponse,
+  TranscriptResponse,
+  WorkflowParams,
+  WorkflowStatusResponse,
+} from "./types";
+import {
+  DEFAULT_AGENT_ID,
+  DEFAULT_BATCH_CONCURRENCY,
+  DEFAULT_FALLBACK_MODELS,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_MODEL,
+  DEFAULT_TOOL_CONCURRENCY,
+} from "./constants";
+import { approvalEventType } from "./approval";
+import { DEFAULT_PERSONA, getPersona } from "./personas";
+import { getRunQueue } from "./queue";
+import { expandTemplate } from "./batch";
 
 const app = new Hono<{ Bindings: Env }>();
 
+// Workflow instance statuses in which a run has stopped without finishing
+const RETRYABLE_INSTANCE_STATUSES: InstanceStatus["status"][] = ["errored", "terminated"];
+const STOPPED_INSTANCE_STATUSES: InstanceStatus["status"][] = ["complete", ...RETRYABLE_INSTANCE_STATUSES];
+
+// Look up a workflow instance, null if the Workflows binding does not know it
+async function findInstance(env: Env, instanceId: string): Promise<WorkflowInstance | null> {
+  try {
+    return await env.AGENT_WORKFLOW.get(instanceId);
+  } catch {
+    return null;
+  }
+}
+
+// Stop a workflow instance. A failed terminate() is only ignored when the
+// instance has already stopped, or never existed (e.g. in local dev).
+async function terminateInstance(env: Env, instanceId: string): Promise<void> {
+  const instance = await findInstance(env, instanceId);
+  if (!instance) return;
+
+  try {
+    await instance.terminate();
+  } catch (error) {
+    const { status } = await instance.status();
+    if (!STOPPED_INSTANCE_STATUSES.includes(status)) throw error;
+  }
+}
+
 // Agent WebSocket connections (handled by Agents SDK)
 app.all("/agents/*", async (c) => {
   const response = await routeAgentRequest(c.req.raw, c.env);
@@ -23,21 +79,215 @@ app.post("/api/reset", zValidator("json", ResetRequestSchema), async (c) => {
   // Terminate workflow if instanceId provided
   if (body.instanceId) {
     try {
-      const instance = await c.env.AGENT_WORKFLOW.get(body.instanceId);
-      await instance.terminate();
-    } catch {
-      // terminate() not implemented in local dev
+      await terminateInstance(c.env, body.instanceId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return c.text(`Failed to reset run: ${message}`, 500);
     }
+    // Free its slot, or drop it from the queue if it never started
+    await getRunQueue(c.env).release(body.instanceId);
   }
 
   // Reset agent state using RPC
-  const id = c.env.RESEARCH_AGENT.idFromName(DEFAULT_AGENT_ID);
+  const id = c.env.RESEARCH_AGENT.idFromName(body.agentId ?? DEFAULT_AGENT_ID);
   const agent = c.env.RESEARCH_AGENT.get(id);
   await agent.reset();
 
   return c.text("OK");
 });
 
+// Deliver an approve/reject decision to a workflow waiting on a tool call
+app.post("/api/approval", zValidator("json", ApprovalRequestSchema), async (c) => {
+  const body = c.req.valid("json");
+
+  const instance = await findInstance(c.env, body.instanceId);
+  if (!instance) {
+    return c.text("Workflow instance not found", 404);
+  }
+  await instance.sendEvent({
+    type: approvalEventType(body.toolCallId),
+    payload: { approved: body.approved },
+  });
+
+  return c.text("OK");
+});
+
+// List past runs for an agent (GET /api/runs?agentId=...)
+app.get("/api/runs", zValidator("query", RunsQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+
+  const id = c.env.RESEARCH_AGENT.idFromName(query.agentId ?? DEFAULT_AGENT_ID);
+  const agent = c.env.RESEARCH_AGENT.get(id);
+
+  const response: RunListResponse = { runs: await agent.listRuns() };
+  return c.json(response);
+});
+
+// Get a single run with its steps and final result
+app.get("/api/runs/:instanceId", zValidator("query", RunsQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+
+  const id = c.env.RESEARCH_AGENT.idFromName(query.agentId ?? DEFAULT_AGENT_ID);
+  const agent = c.env.RESEARCH_AGENT.get(id);
+
+  const run = await agent.getRun(c.req.param("instanceId"));
+  if (!run) {
+    return c.text("Run not found", 404);
+  }
+  return c.json(run);
+});
+
+// Full conversation trace of a run: assistant turns, tool calls and raw tool results
+app.get("/api/runs/:instanceId/transcript", zValidator("query", RunsQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+  const instanceId = c.req.param("instanceId");
+
+  const id = c.env.RESEARCH_AGENT.idFromName(query.agentId ?? DEFAULT_AGENT_ID);
+  const agent = c.env.RESEARCH_AGENT.get(id);
+
+  const entries = await agent.getTranscript(instanceId);
+  if (!entries) {
+    return c.text("Run not found", 404);
+  }
+
+  const response: TranscriptResponse = { instanceId, entries };
+  return c.json(response);
+});
+
+// Stop a running workflow but keep its history (POST /api/runs/:instanceId/cancel?agentId=...).
+// Cancelling a run that has already stopped returns its current status.
+app.post("/api/runs/:instanceId/cancel", zValidator("query", RunsQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+  const instanceId = c.req.param("instanceId");
+
+  const id = c.env.RESEARCH_AGENT.idFromName(query.agentId ?? DEFAULT_AGENT_ID);
+  const agent = c.env.RESEARCH_AGENT.get(id);
+
+  const run = await agent.getRun(instanceId);
+  if (!run) {
+    return c.text("Run not found", 404);
+  }
+
+  const isActive = run.status === "queued" || run.status === "running";
+  const queue = getRunQueue(c.env);
+
+  // A waiting run is simply taken out of the queue; one that was admitted
+  // in the meantime is stopped like any running run
+  if (isActive && !(run.status === "queued" && (await queue.cancel(instanceId)))) {
+    try {
+      await terminateInstance(c.env, instanceId);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return c.text(`Failed to cancel run: ${message}`, 500);
+    }
+    await queue.release(instanceId);
+  }
+  if (isActive) {
+    await agent.cancelRun(instanceId);
+  }
+
+  const response: CancelRunResponse = {
+    instanceId,
+    status: isActive ? "cancelled" : run.status,
+  };
+  return c.json(response);
+});
+
+// Start a new run that continues from the completed turns of a failed or
+// terminated one (POST /api/runs/:instanceId/retry?agentId=...)
+app.post("/api/runs/:instanceId/retry", zValidator("query", RunsQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+  const instanceId = c.req.param("instanceId");
+
+  const agentId = query.agentId ?? DEFAULT_AGENT_ID;
+  const id = c.env.RESEARCH_AGENT.idFromName(agentId);
+  const agent = c.env.RESEARCH_AGENT.get(id);
+
+  const run = await agent.getRun(instanceId);
+  if (!run) {
+    return c.text("Run not found", 404);
+  }
+  if (run.status === "complete") {
+    return c.text("Run already completed", 409);
+  }
+  if (run.status === "queued") {
+    return c.text("Run is still queued", 409);
+  }
+
+  // A run terminated by /api/reset still has status "running" in history
+  if (run.status === "running") {
+    const instance = await findInstance(c.env, instanceId);
+    const status = await instance?.status().then(
+      (s) => s.status,
+      () => null,
+    );
+    if (!status) {
+      return c.text("Workflow instance not found", 404);
+    }
+    if (!RETRYABLE_INSTANCE_STATUSES.includes(status)) {
+      return c.text("Run is still active", 409);
+    }
+  }
+
+  const params: WorkflowParams = { ...run.params, parentInstanceId: instanceId };
+  const submission = await getRunQueue(c.env).submit(params);
+
+  const response: StartWorkflowResponse = { ...submission, agentId };
+  return c.json(response);
+});
+
+// Research many tasks as child runs and combine the results (POST /api/batch)
+app.post("/api/batch", zValidator("json", BatchRequestSchema), async (c) => {
+  const body = c.req.valid("json");
+  const agentId = body.agentId ?? DEFAULT_AGENT_ID;
+
+  let tasks: string[];
+  try {
+    tasks = body.tasks ?? (body.variables ?? []).map((variables) => expandTemplate(body.template ?? "", variables));
+  } catch (error) {
+    return c.text(error instanceof Error ? error.message : "Invalid template", 400);
+  }
+
+  const params: BatchParams = {
+    agentId,
+    tasks,
+    concurrency: body.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+    run: runSettings(body),
+  };
+  const instance = await c.env.BATCH_WORKFLOW.create({ params });
+
+  const response: BatchResponse = { batchId: instance.id, agentId, taskCount: tasks.length };
+  return c.json(response);
+});
+
+// Progress of a batch, with the combined report once it finishes
+app.get("/api/batch/:batchId", zValidator("query", RunsQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+
+  const id = c.env.RESEARCH_AGENT.idFromName(query.agentId ?? DEFAULT_AGENT_ID);
+  const agent = c.env.RESEARCH_AGENT.get(id);
+
+  const batch = await agent.getBatch(c.req.param("batchId"));
+  if (!batch) {
+    return c.text("Batch not found", 404);
+  }
+  return c.json(batch);
+});
+
+// The combined report as a Markdown document
+app.get("/api/batch/:batchId/report", zValidator("query", RunsQuerySchema), async (c) => {
+  const query = c.req.valid("query");
+
+  const id = c.env.RESEARCH_AGENT.idFromName(query.agentId ?? DEFAULT_AGENT_ID);
+  const agent = c.env.RESEARCH_AGENT.get(id);
+
+  const batch = await agent.getBatch(c.req.param("batchId"));
+  if (!batch?.report) {
+    return c.text(batch ? "Batch is still running" : "Batch not found", batch ? 409 : 404);
+  }
+  return c.body(batch.report.markdown, 200, { "Content-Type": "text/markdown; charset=utf-8" });
+});
+
 // Check workflow status (GET /api?instanceId=...)
 app.get("/api", async (c) => {
   const instanceId = c.req.query("instanceId");
@@ -45,8 +295,15 @@ app.get("/api", async (c) => {
     return c.text("Invalid API request", 400);
   }
 
-  const instance = await c.env.AGENT_WORKFLOW.get(instanceId);
-  const status = await instance.status();
+  const instance = await findInstance(c.env, instanceId);
+  const status = await instance?.status().catch(() => null);
+  if (!status) {
+    if (await getRunQueue(c.env).isQueued(instanceId)) {
+      const queued: WorkflowStatusResponse = { status: "queued", output: null };
+      return c.json(queued);
+    }
+    return c.text("Workflow instance not found", 404);
+  }
 
   const response: WorkflowStatusResponse = {
     status: status.status,
@@ -55,15 +312,40 @@ app.get("/api", async (c) => {
   return c.json(response);
 });
 
+// Run settings with server defaults, shared by single runs and batches
+function runSettings(body: Omit<z.infer<typeof StartWorkflowRequestSchema>, "task">): BatchParams["run"] {
+  const persona = body.persona ?? DEFAULT_PERSONA;
+  return {
+    toolConcurrency: body.toolConcurrency ?? DEFAULT_TOOL_CONCURRENCY,
+    persona,
+    // Without an explicit limit the persona's own turn count applies
+    maxTurns: body.maxTurns ?? getPersona(persona).maxTurns,
+    model: body.model ?? DEFAULT_MODEL,
+    fallbackModels: body.fallbackModels ?? DEFAULT_FALLBACK_MODELS,
+    generation: {
+      maxTokens: body.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: body.temperature,
+      stop: body.stop,
+    },
+    tokenBudget: body.tokenBudget ?? null,
+  };
+}
+
 // Start new workflow (POST /api)
 app.post("/api", zValidator("json", StartWorkflowRequestSchema), async (c) => {
   const body = c.req.valid("json");
+  const agentId = body.agentId ?? DEFAULT_AGENT_ID;
 
-  const instance = await c.env.AGENT_WORKFLOW.create({
-    params: { task: body.task, agentId: DEFAULT_AGENT_ID },
-  });
+  const params: WorkflowParams = {
+    ...runSettings(body),
+    task: body.task,
+    agentId,
+    parentInstanceId: null,
+  };
+  // Runs start once the queue has a free slot for them
+  const submission = await getRunQueue(c.env).submit(params);
 
-  const response: StartWorkflowResponse = { instanceId: instance.id };
+  const response: StartWorkflowResponse = { ...submission, agentId };
   return c.json(response);
 });
 
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { CfWorkerJsonSchemaValidator } from "@modelcontextprotocol/sdk/validation/cfworker-provider.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { toolError } from "./registry";
+import type { Tool } from "./registry";
+import type { ToolDefinition } from "./types";
+import { MCP_REQUEST_TIMEOUT_MS } from "./constants";
+
+// One entry of the MCP_SERVERS var, a JSON array
+export const McpServerConfigSchema = z.object({
+  // Becomes part of each tool name, so it is kept short and name-safe
+  name: z.string().regex(/^[a-zA-Z0-9-]{1,20}$/, "Use up to 20 letters, digits or dashes"),
+  url: z.url(),
+  // Streamable HTTP is tried first and falls back to SSE unless one is chosen
+  transport: z.enum(["streamable-http", "sse"]).optional(),
+  headers: z.record(z.string(), z.string()).optional(),
+  // Calls wait for the user's approval unless the server is marked as trusted
+  requiresApproval: z.boolean().optional(),
+});
+
+export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
+
+// A tool offered by a server, as found at the start of a run
+export interface McpToolInfo {
+  server: string;
+  name: string;
+  description: string;
+  // JSON Schema of the arguments, as text so the discovery step can checkpoint it
+  inputSchema: string;
+  requiresApproval: boolean;
+}
+
+export type McpConnect = (server: McpServerConfig) => Promise<Client>;
+
+// Tool names the model sees; OpenAI-compatible names allow [a-zA-Z0-9_-] up to 64 characters
+export function mcpToolName(server: string, tool: string): string {
+  return `mcp__${server}__${tool.replace(/[^a-zA-Z0-9_-]/g, "_")}`.slice(0, 64);
+}
+
+export function parseMcpServers(value: string | undefined): McpServerConfig[] {
+  if (!value?.trim()) return [];
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid MCP_SERVERS: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const parsed = z.array(McpServerConfigSchema).safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Invalid MCP_SERVERS: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+function newClient(): Client {
+  // The default validator compiles schemas with eval, which Workers do not allow
+  return new Client(
+    { name: "durable-agent", version: "1.0.0" },
+    { jsonSchemaValidator: new CfWorkerJsonSchemaValidator() },
+  );
+}
+
+// The SDK's transport types are not written for exactOptionalPropertyTypes, hence the casts
+export const connectRemote: McpConnect = async (server) => {
+  const url = new URL(server.url);
+  const requestInit: RequestInit = { headers: server.headers ?? {} };
+
+  if (server.transport !== "sse") {
+    const client = newClient();
+    try {
+      await client.connect(new StreamableHTTPClientTransport(url, { requestInit }) as Transport);
+      return client;
+    } catch (error) {
+      if (server.transport === "streamable-http") throw error;
+    }
+  }
+
+  // Older servers only speak the HTTP+SSE transport
+  const client = newClient();
+  await client.connect(new SSEClientTransport(url, { requestInit }) as Transport);
+  return client;
+};
+
+// Text of a tools/call result; other content types are only named
+function resultText(content: unknown): string {
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((item: { type?: string; text?: string }) =>
+      item.type === "text" && typeof item.text === "string" ? item.text : `[${item.type ?? "unknown"} content]`,
+    )
+    .join("\n");
+}
+
+// Clients for the configured MCP servers, connected on first use. A server
+// that cannot be reached during discovery is skipped so the rest of the run
+// still has its other tools.
+export class McpClientPool {
+  readonly servers: McpServerConfig[];
+  private readonly connect: McpConnect;
+  private readonly clients = new Map<string, Promise<Client>>();
+
+  constructor(servers: McpServerConfig[], connect: McpConnect = connectRemote) {
+    this.servers = servers;
+    this.connect = connect;
+  }
+
+  async listTools(): Promise<McpToolInfo[]> {
+    const perServer = await Promise.all(
+      this.servers.map(async (server) => {
+        try {
+          return await this.listServerTools(server);
+        } catch (error) {
+          console.error(`MCP server ${server.name} is unavailable:`, error);
+          return [];
+        }
+      }),
+    );
+    return perServer.flat();
+  }
+
+  async callTool(server: string, name: string, args: Record<string, unknown>): Promise<string> {
+    const client = await this.client(server);
+    const result = await client.callTool({ name, arguments: args }, undefined, { timeout: MCP_REQUEST_TIMEOUT_MS });
+    const text = resultText(result.content);
+    if (result.isError) {
+      return toolError("upstream_error", mcpToolName(server, name), text || `${name} failed on ${server}`);
+    }
+    return text;
+  }
+
+  async close(): Promise<void> {
+    const clients = [...this.clients.values()];
+    this.clients.clear();
+    await Promise.allSettled(clients.map(async (client) => (await client).close()));
+  }
+
+  private async listServerTools(server: McpServerConfig): Promise<McpToolInfo[]> {
+    const client = await this.client(server.name);
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await client.listTools(cursor ? { cursor } : {}, { timeout: MCP_REQUEST_TIMEOUT_MS });
+      for (const tool of page.tools) {
+        tools.push({
+          server: server.name,
+          name: tool.name,
+          description: tool.description ?? "",
+          inputSchema: JSON.stringify(tool.inputSchema),
+          requiresApproval: server.requiresApproval ?? true,
+        });
+      }
+      cursor = page.nextCursor;
+    } while (cursor);
+    return tools;
+  }
+
+  private client(name: string): Promise<Client> {
+    let client = this.clients.get(name);
+    if (!client) {
+      const server = this.servers.find((s) => s.name === name);
+      if (!server) return Promise.reject(new Error(`Unknown MCP server: ${name}`));
+      client = this.connect(server);
+      // A failed connection is retried on next use rather than cached
+      client.catch(() => this.clients.delete(name));
+      this.clients.set(name, client);
+    }
+    return client;
+  }
+}
+
+// A registry tool that forwards calls to the server that offered it. The
+// server validates the arguments, so its JSON Schema is passed through as is.
+export function mcpTool(info: McpToolInfo): Tool<Record<string, unknown>> {
+  const { $schema: _, ...parameters } = JSON.parse(info.inputSchema) as Record<string, unknown>;
+  return {
+    name: mcpToolName(info.server, info.name),
+    description: info.description || `${info.name} from the ${info.server} MCP server`,
+    inputSchema: z.record(z.string(), z.unknown()),
+    parameters: parameters as ToolDefinition["function"]["parameters"],
+    requiresApproval: info.requiresApproval,
+    run: (input, { mcp }) => mcp.callTool(info.server, info.name, input),
+  };
+}
+
+export function createMcpClientPool(env: Env): McpClientPool {
+  return new McpClientPool(parseMcpServers(env.MCP_SERVERS));
+}
@@ -0,0 +1,240 @@
+import { NPM_DOWNLOADS_URL, NPM_REGISTRY_URL, PYPI_STATS_URL, PYPI_URL } from "./constants";
+
+export type PackageEcosystem = "npm" | "pypi";
+
+export interface PackageRegistryClientOptions {
+  npmRegistryUrl?: string;
+  npmDownloadsUrl?: string;
+  pypiUrl?: string;
+  pypiStatsUrl?: string;
+  fetch?: typeof fetch;
+}
+
+export interface PackageSummary {
+  name: string;
+  version: string;
+  description: string | null;
+}
+
+export interface PackageDetail {
+  ecosystem: PackageEcosystem;
+  name: string;
+  description: string | null;
+  latestVersion: string;
+  latestReleased: string | null;
+  firstReleased: string | null;
+  versionCount: number;
+  dependencies: number;
+  license: string | null;
+  // Downloads in the last week, null when the stats service is unavailable
+  weeklyDownloads: number | null;
+  repository: string | null;
+  // "owner/repo" when the source is on GitHub, for cross-referencing with get_repo
+  githubRepo: string | null;
+}
+
+export class PackageRegistryError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "PackageRegistryError";
+    this.status = status;
+  }
+}
+
+interface NpmSearchResponse {
+  objects: Array<{ package: { name: string; version: string; description?: string } }>;
+}
+
+interface NpmPackument {
+  name: string;
+  description?: string;
+  "dist-tags": { latest: string };
+  time: Record<string, string>;
+  versions: Record<string, { dependencies?: Record<string, string>; license?: unknown }>;
+  license?: unknown;
+  repository?: string | { url?: string };
+}
+
+interface NpmDownloadsResponse {
+  downloads: number;
+}
+
+interface PyPIProject {
+  info: {
+    name: string;
+    summary: string | null;
+    version: string;
+    license: string | null;
+    license_expression?: string | null;
+    requires_dist: string[] | null;
+    project_urls: Record<string, string> | null;
+    home_page: string | null;
+  };
+  releases: Record<string, Array<{ upload_time_iso_8601: string }>>;
+}
+
+interface PyPIStatsResponse {
+  data: { last_week: number };
+}
+
+const GITHUB_REPO_PATTERN = /github\.com[/:]([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:[/#?]|$)/;
+
+export function githubRepoFromUrl(url: string | null): string | null {
+  const match = url ? GITHUB_REPO_PATTERN.exec(url) : null;
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+function licenseName(license: unknown): string | null {
+  if (typeof license === "string") return license;
+  if (license && typeof license === "object" && "type" in license && typeof license.type === "string") {
+    return license.type;
+  }
+  return null;
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', "#39": "'", "#x27": "'" };
+
+function htmlText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(amp|lt|gt|quot|#39|#x27);/g, (_, entity: string) => HTML_ENTITIES[entity] ?? "")
+    .trim();
+}
+
+// PyPI has no JSON search API, so results are read from its search page
+export function parsePyPISearch(html: string, limit: number): PackageSummary[] {
+  const field = (snippet: string, name: string) => {
+    const match = new RegExp(`class="package-snippet__${name}"[^>]*>([\\s\\S]*?)</`).exec(snippet);
+    return match?.[1] === undefined ? null : htmlText(match[1]);
+  };
+
+  return html
+    .split('class="package-snippet"')
+    .slice(1, limit + 1)
+    .flatMap((snippet) => {
+      const name = field(snippet, "name");
+      if (!name) return [];
+      return [{ name, version: field(snippet, "version") ?? "", description: field(snippet, "description") || null }];
+    });
+}
+
+// Reads npm and PyPI metadata into one compact shape for the package tools.
+// Download counts come from separate stats services and are left null when
+// those fail, since the rest of the answer is still useful.
+export class PackageRegistryClient {
+  private readonly npmRegistryUrl: string;
+  private readonly npmDownloadsUrl: string;
+  private readonly pypiUrl: string;
+  private readonly pypiStatsUrl: string;
+  private readonly fetcher: typeof fetch;
+
+  constructor(options: PackageRegistryClientOptions = {}) {
+    this.npmRegistryUrl = options.npmRegistryUrl ?? NPM_REGISTRY_URL;
+    this.npmDownloadsUrl = options.npmDownloadsUrl ?? NPM_DOWNLOADS_URL;
+    this.pypiUrl = options.pypiUrl ?? PYPI_URL;
+    this.pypiStatsUrl = options.pypiStatsUrl ?? PYPI_STATS_URL;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async search(ecosystem: PackageEcosystem, query: string, limit: number): Promise<PackageSummary[]> {
+    if (ecosystem === "npm") {
+      const data = await this.json<NpmSearchResponse>(
+        `${this.npmRegistryUrl}/-/v1/search?text=${encodeURIComponent(query)}&size=${limit}`,
+      );
+      return data.objects.map(({ package: p }) => ({
+        name: p.name,
+        version: p.version,
+        description: p.description ?? null,
+      }));
+    }
+
+    const response = await this.request(`${this.pypiUrl}/search/?q=${encodeURIComponent(query)}`, "text/html");
+    return parsePyPISearch(await response.text(), limit);
+  }
+
+  async get(ecosystem: PackageEcosystem, name: string): Promise<PackageDetail> {
+    return ecosystem === "npm" ? this.getNpm(name) : this.getPyPI(name);
+  }
+
+  private async getNpm(name: string): Promise<PackageDetail> {
+    // Scoped names keep their "@" but encode the slash
+    const path = name.startsWith("@") ? `@${encodeURIComponent(name.slice(1))}` : encodeURIComponent(name);
+    const [doc, downloads] = await Promise.all([
+      this.json<NpmPackument>(`${this.npmRegistryUrl}/${path}`),
+      this.optionalJson<NpmDownloadsResponse>(`${this.npmDownloadsUrl}/downloads/point/last-week/${path}`),
+    ]);
+
+    const latest = doc["dist-tags"].latest;
+    const manifest = doc.versions[latest];
+    const repository = typeof doc.repository === "string" ? doc.repository : (doc.repository?.url ?? null);
+    return {
+      ecosystem: "npm",
+      name: doc.name,
+      description: doc.description ?? null,
+      latestVersion: latest,
+      latestReleased: doc.time[latest] ?? null,
+      firstReleased: doc.time.created ?? null,
+      versionCount: Object.keys(doc.versions).length,
+      dependencies: Object.keys(manifest?.dependencies ?? {}).length,
+      license: licenseName(manifest?.license ?? doc.license),
+      weeklyDownloads: downloads?.downloads ?? null,
+      repository,
+      githubRepo: githubRepoFromUrl(repository),
+    };
+  }
+
+  private async getPyPI(name: string): Promise<PackageDetail> {
+    const [project, stats] = await Promise.all([
+      this.json<PyPIProject>(`${this.pypiUrl}/pypi/${encodeURIComponent(name)}/json`),
+      this.optionalJson<PyPIStatsResponse>(
+        `${this.pypiStatsUrl}/api/packages/${encodeURIComponent(name.toLowerCase())}/recent`,
+      ),
+    ]);
+
+    const { info, releases } = project;
+    const uploads = Object.values(releases)
+      .flat()
+      .map((file) => file.upload_time_iso_8601)
+      .sort();
+    const latestUploads = (releases[info.version] ?? []).map((file) => file.upload_time_iso_8601).sort();
+    const urls = Object.values(info.project_urls ?? {});
+    const repository = urls.find((url) => githubRepoFromUrl(url)) ?? info.home_page ?? urls[0] ?? null;
+    return {
+      ecosystem: "pypi",
+      name: info.name,
+      description: info.summary || null,
+      latestVersion: info.version,
+      latestReleased: latestUploads[0] ?? null,
+      firstReleased: uploads[0] ?? null,
+      versionCount: Object.keys(releases).length,
+      // Optional extras are not installed by default
+      dependencies: (info.requires_dist ?? []).filter((requirement) => !/extra\s*==/.test(requirement)).length,
+      license: info.license_expression || info.license || null,
+      weeklyDownloads: stats?.data.last_week ?? null,
+      repository,
+      githubRepo: githubRepoFromUrl(repository),
+    };
+  }
+
+  private async request(url: string, accept: string): Promise<Response> {
+    const response = await this.fetcher(url, { headers: { Accept: accept, "User-Agent": "DurableAgent/1.0" } });
+    if (!response.ok) {
+      throw new PackageRegistryError(response.status, `Package registry error (${response.status}) for ${url}`);
+    }
+    return response;
+  }
+
+  private async json<T>(url: string): Promise<T> {
+    return (await this.request(url, "application/json")).json<T>();
+  }
+
+  private async optionalJson<T>(url: string): Promise<T | null> {
+    try {
+      return await this.json<T>(url);
+    } catch {
+      return null;
+    }
+  }
+}
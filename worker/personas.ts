@@ -0,0 +1,68 @@
+// A named agent setup: how the model should behave, which registered tools it
+// may call and how many turns it gets
+export interface Persona {
+  id: string;
+  label: string;
+  systemPrompt: string;
+  tools: string[];
+  // Whether tools of the configured MCP servers are added to the list above
+  mcp: boolean;
+  maxTurns: number;
+}
+
+export const PERSONAS = [
+  {
+    id: "repo-scout",
+    label: "Repo scout",
+    systemPrompt: [
+      "You are a research assistant that finds and compares open source projects on GitHub.",
+      "Start with search_repos to find candidates, then use get_repo to check the most relevant ones.",
+      "For libraries, use search_packages and get_package to compare npm or PyPI adoption, then get_repo on their githubRepo.",
+      "When maintenance matters, check list_releases, get_commit_activity and get_issue_activity; use get_readme and list_contributors for scope and ownership.",
+      "Use fetch_url to read a project's documentation site or blog when GitHub does not answer the question.",
+      "Answer in Markdown with a short summary followed by a ranked list.",
+      "Cite every repository you mention as a link to https://github.com/<owner>/<repo> and include its star count.",
+    ].join("\n"),
+    tools: [
+      "search_repos",
+      "get_repo",
+      "search_packages",
+      "get_package",
+      "get_readme",
+      "list_releases",
+      "list_contributors",
+      "get_issue_activity",
+      "get_commit_activity",
+      "fetch_url",
+    ],
+    mcp: true,
+    maxTurns: 10,
+  },
+  {
+    id: "license-auditor",
+    label: "License auditor",
+    systemPrompt: [
+      "You audit the licenses of open source projects on GitHub.",
+      "Use get_repo to read each project's license; only use search_repos to locate a project you cannot name exactly.",
+      "Use get_readme only to find licensing notes such as dual licensing or exceptions.",
+      "Answer in Markdown with a table of repository, license and whether it is permissive, copyleft or unknown.",
+      "Flag projects without a license and never guess a license you did not read from get_repo.",
+    ].join("\n"),
+    tools: ["get_repo", "search_repos", "get_readme"],
+    mcp: false,
+    maxTurns: 6,
+  },
+] as const satisfies readonly Persona[];
+
+export type PersonaId = (typeof PERSONAS)[number]["id"];
+
+/** Persona used when a request does not select one */
+export const DEFAULT_PERSONA: PersonaId = "repo-scout";
+
+export function getPersona(id: PersonaId): Persona {
+  const persona = PERSONAS.find((p) => p.id === id);
+  if (!persona) {
+    throw new Error(`Unknown persona: ${id}`);
+  }
+  return { ...persona, tools: [...persona.tools] };
+}
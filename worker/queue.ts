@@ -0,0 +1,214 @@
+import { DurableObject } from "cloudflare:workers";
+import { toRunFailure } from "./errors";
+import { emptyUsage } from "./usage";
+import type { WorkflowParams } from "./types";
+import {
+  MAX_CONCURRENT_RUNS,
+  MAX_CONCURRENT_RUNS_PER_AGENT,
+  QUEUE_RECONCILE_INTERVAL_MS,
+} from "./constants";
+
+// One queue admits runs for every agent so the global limit holds
+const RUN_QUEUE_NAME = "global";
+
+// Workflow instance statuses after which a run no longer holds a slot
+const STOPPED_INSTANCE_STATUSES: InstanceStatus["status"][] = ["complete", "errored", "terminated"];
+
+type QueueRow = {
+  instance_id: string;
+  agent_id: string;
+  params: string;
+  status: "queued" | "running";
+};
+
+export interface QueueSubmission {
+  instanceId: string;
+  // 1-based position among waiting runs, null if the run started right away
+  queuePosition: number | null;
+}
+
+export function getRunQueue(env: Env): DurableObjectStub<RunQueue> {
+  return env.RUN_QUEUE.get(env.RUN_QUEUE.idFromName(RUN_QUEUE_NAME));
+}
+
+// Admission layer in front of AgentWorkflow. Runs wait here until both the
+// global and the per-agent concurrency limit have room, oldest first.
+export class RunQueue extends DurableObject<Env> {
+  // The pass in progress; calls made meanwhile are folded into one more pass
+  private pumping: Promise<void> | null = null;
+  private pumpRequested = false;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+
+    this.ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS run_queue (
+      instance_id TEXT PRIMARY KEY,
+      agent_id TEXT NOT NULL,
+      params TEXT NOT NULL,
+      status TEXT NOT NULL,
+      enqueued_at INTEGER NOT NULL
+    )`);
+  }
+
+  // The instance ID is assigned now so the run can be followed and cancelled while it waits
+  async submit(params: WorkflowParams): Promise<QueueSubmission> {
+    const instanceId = crypto.randomUUID();
+    this.ctx.storage.sql.exec(
+      `INSERT INTO run_queue (instance_id, agent_id, params, status, enqueued_at) VALUES (?, ?, ?, 'queued', ?)`,
+      instanceId,
+      params.agentId,
+      JSON.stringify(params),
+      Date.now(),
+    );
+    await this.getAgent(params.agentId).enqueueRun(instanceId, params, this.queued().length);
+
+    await this.pump();
+
+    const position = this.queued().findIndex((row) => row.instance_id === instanceId);
+    return { instanceId, queuePosition: position === -1 ? null : position + 1 };
+  }
+
+  // Remove a run that has not started yet. Returns false if it is not waiting.
+  async cancel(instanceId: string): Promise<boolean> {
+    const removed = this.ctx.storage.sql.exec(
+      `DELETE FROM run_queue WHERE instance_id = ? AND status = 'queued'`,
+      instanceId,
+    ).rowsWritten;
+    if (removed > 0) await this.notifyPositions();
+    return removed > 0;
+  }
+
+  // A waiting run has no workflow instance yet
+  async isQueued(instanceId: string): Promise<boolean> {
+    const [row] = this.ctx.storage.sql
+      .exec(`SELECT 1 FROM run_queue WHERE instance_id = ? AND status = 'queued'`, instanceId)
+      .toArray();
+    return row !== undefined;
+  }
+
+  // Free the slot of a finished, failed or cancelled run. Safe to call more than once.
+  async release(instanceId: string): Promise<void> {
+    this.ctx.storage.sql.exec(`DELETE FROM run_queue WHERE instance_id = ?`, instanceId);
+    await this.pump();
+  }
+
+  // Runs terminated from outside never call release(), so their slots are
+  // reclaimed by checking the workflow status
+  async alarm(): Promise<void> {
+    for (const row of this.rows("running")) {
+      try {
+        const instance = await this.env.AGENT_WORKFLOW.get(row.instance_id);
+        const { status } = await instance.status();
+        if (!STOPPED_INSTANCE_STATUSES.includes(status)) continue;
+      } catch {
+        // Unknown instance: nothing is using the slot
+      }
+      this.ctx.storage.sql.exec(`DELETE FROM run_queue WHERE instance_id = ?`, row.instance_id);
+    }
+    await this.pump();
+  }
+
+  // Admission awaits workflow creation, during which other calls can arrive,
+  // so passes run one at a time and each sees the previous pass's admissions
+  private pump(): Promise<void> {
+    this.pumpRequested = true;
+    this.pumping ??= this.drain().finally(() => {
+      this.pumping = null;
+    });
+    return this.pumping;
+  }
+
+  private async drain(): Promise<void> {
+    while (this.pumpRequested) {
+      this.pumpRequested = false;
+      await this.admit();
+    }
+  }
+
+  private async admit(): Promise<void> {
+    const running = this.rows("running");
+    const runningPerAgent = new Map<string, number>();
+    for (const row of running) {
+      runningPerAgent.set(row.agent_id, (runningPerAgent.get(row.agent_id) ?? 0) + 1);
+    }
+
+    let admitted = 0;
+    let runningCount = running.length;
+    for (const row of this.queued()) {
+      if (runningCount >= MAX_CONCURRENT_RUNS) break;
+      // A busy agent does not hold up runs of other agents behind it
+      const agentRunning = runningPerAgent.get(row.agent_id) ?? 0;
+      if (agentRunning >= MAX_CONCURRENT_RUNS_PER_AGENT) continue;
+
+      // The row may have been cancelled while an earlier create was awaited
+      const claimed = this.ctx.storage.sql.exec(
+        `UPDATE run_queue SET status = 'running' WHERE instance_id = ? AND status = 'queued'`,
+        row.instance_id,
+      ).rowsWritten;
+      if (claimed === 0) continue;
+      runningCount++;
+      runningPerAgent.set(row.agent_id, agentRunning + 1);
+      admitted++;
+
+      try {
+        await this.env.AGENT_WORKFLOW.create({
+          id: row.instance_id,
+          params: JSON.parse(row.params) as WorkflowParams,
+        });
+      } catch (error) {
+        console.error(`Failed to start queued run ${row.instance_id}:`, error);
+        this.ctx.storage.sql.exec(`DELETE FROM run_queue WHERE instance_id = ?`, row.instance_id);
+        runningCount--;
+        runningPerAgent.set(row.agent_id, agentRunning);
+        await this.failRun(row, error);
+      }
+    }
+
+    if (admitted > 0) await this.notifyPositions();
+
+    // Keep checking on admitted runs while any are outstanding
+    if (this.rows("running").length > 0 && (await this.ctx.storage.getAlarm()) === null) {
+      await this.ctx.storage.setAlarm(Date.now() + QUEUE_RECONCILE_INTERVAL_MS);
+    }
+  }
+
+  private async notifyPositions(): Promise<void> {
+    for (const [index, row] of this.queued().entries()) {
+      await this.getAgent(row.agent_id).updateQueuePosition(row.instance_id, index + 1);
+    }
+  }
+
+  private async failRun(row: QueueRow, error: unknown): Promise<void> {
+    const agent = this.getAgent(row.agent_id);
+    const failure = toRunFailure(error);
+    await agent.updateProgress(row.instance_id, "error", {
+      status: "error",
+      message: failure.message,
+      error: failure,
+    });
+    await agent.finishRun(row.instance_id, {
+      status: "failed",
+      turns: 0,
+      models: [],
+      usage: emptyUsage(),
+      error: failure,
+    });
+  }
+
+  private queued(): QueueRow[] {
+    return this.rows("queued");
+  }
+
+  private rows(status: QueueRow["status"]): QueueRow[] {
+    return this.ctx.storage.sql
+      .exec<QueueRow>(
+        `SELECT instance_id, agent_id, params, status FROM run_queue WHERE status = ? ORDER BY enqueued_at, rowid`,
+        status,
+      )
+      .toArray();
+  }
+
+  private getAgent(agentId: string) {
+    return this.env.RESEARCH_AGENT.get(this.env.RESEARCH_AGENT.idFromName(agentId));
+  }
+}
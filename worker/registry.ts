@@ -0,0 +1,145 @@
+import { z } from "zod";
+import type { GitHubClient } from "./github";
+import type { PackageRegistryClient } from "./packages";
+import type { WebFetcher } from "./web";
+import type { McpClientPool } from "./mcp";
+import type { ToolDefinition } from "./types";
+
+// Shared clients handed to every tool call
+export interface ToolContext {
+  github: GitHubClient;
+  packages: PackageRegistryClient;
+  web: WebFetcher;
+  mcp: McpClientPool;
+}
+
+// A tool the agent can call. The Zod input schema validates the model's
+// arguments and is also the source of the JSON Schema sent to the model.
+export interface Tool<Input = unknown> {
+  name: string;
+  description: string;
+  inputSchema: z.ZodType<Input>;
+  // JSON Schema sent to the model instead of one derived from inputSchema,
+  // for tools described elsewhere such as on an MCP server
+  parameters?: ToolDefinition["function"]["parameters"];
+  // Pause the workflow for a human decision before each call
+  requiresApproval?: boolean;
+  run(input: Input, context: ToolContext): Promise<string>;
+}
+
+// Infers the run() input type from the schema
+export function defineTool<Input>(tool: Tool<Input>): Tool<Input> {
+  return tool;
+}
+
+// Tool results are fed back to the model, so failures are reported as JSON
+// it can read and correct rather than thrown.
+const TOOL_ERROR_CODES = [
+  "unknown_tool",
+  "invalid_json",
+  "invalid_arguments",
+  "approval_denied",
+  "not_found",
+  "rate_limited",
+  "upstream_error",
+  "blocked_url",
+] as const;
+
+export type ToolErrorCode = (typeof TOOL_ERROR_CODES)[number];
+
+export function toolError(
+  code: ToolErrorCode,
+  tool: string,
+  message: string,
+  details?: Record<string, unknown>,
+): string {
+  return JSON.stringify({ error: code, tool, message, ...details });
+}
+
+// The code of a result built by toolError(), null for a regular tool result
+export function toolErrorCode(result: string): ToolErrorCode | null {
+  try {
+    const parsed = JSON.parse(result) as { error?: unknown } | null;
+    return TOOL_ERROR_CODES.find((code) => code === parsed?.error) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export class ToolRegistry {
+  private readonly tools = new Map<string, Tool>();
+
+  constructor(tools: Tool[] = []) {
+    for (const tool of tools) this.register(tool);
+  }
+
+  register(tool: Tool): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  // A registry limited to the named tools, e.g. a persona's allowed subset
+  subset(names: readonly string[]): ToolRegistry {
+    return new ToolRegistry(
+      names.map((name) => {
+        const tool = this.tools.get(name);
+        if (!tool) throw new Error(`Tool not registered: ${name}`);
+        return tool;
+      }),
+    );
+  }
+
+  requiresApproval(name: string): boolean {
+    return this.tools.get(name)?.requiresApproval ?? false;
+  }
+
+  // OpenAI-format definitions derived from each tool's input schema
+  definitions(): ToolDefinition[] {
+    return [...this.tools.values()].map((tool) => {
+      const { $schema: _, ...derived } = z.toJSONSchema(tool.inputSchema, { io: "input" });
+      return {
+        type: "function" as const,
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters ?? (derived as ToolDefinition["function"]["parameters"]),
+        },
+      };
+    });
+  }
+
+  // Validate the model's raw JSON arguments and run the matching tool
+  async execute(name: string, rawArguments: string, context: ToolContext): Promise<string> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return toolError("unknown_tool", name, `Unknown tool: ${name}`, {
+        available: [...this.tools.keys()],
+      });
+    }
+
+    let args: unknown;
+    try {
+      args = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+    } catch {
+      return toolError("invalid_json", name, "Arguments are not valid JSON");
+    }
+
+    const parsed = tool.inputSchema.safeParse(args);
+    if (!parsed.success) {
+      return toolError("invalid_arguments", name, `Invalid arguments for ${name}`, {
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        })),
+      });
+    }
+
+    return tool.run(parsed.data, context);
+  }
+}
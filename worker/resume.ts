@@ -0,0 +1,38 @@
+import type { TranscriptEntry } from "./types";
+
+// The longest prefix of a transcript that a new run can continue from: the
+// initial messages plus every assistant turn whose tool calls all have results.
+// A turn cut off mid-way, a final answer or the final-answer prompt is dropped
+// so the resumed run asks the model again from the last complete turn.
+export function resumableEntries(entries: TranscriptEntry[]): TranscriptEntry[] {
+  let end = 0;
+
+  // System prompt and task come before the first assistant turn
+  while (end < entries.length && entries[end]?.message.role !== "assistant") {
+    if (end > 0 && entries[end]?.message.role !== "user") break;
+    end++;
+  }
+
+  while (end < entries.length) {
+    const toolCalls = entries[end]?.message.tool_calls;
+    if (!toolCalls || toolCalls.length === 0) break;
+
+    const pending = new Set(toolCalls.map((toolCall) => toolCall.id));
+    let next = end + 1;
+    while (next < entries.length) {
+      const message = entries[next]?.message;
+      if (message?.role !== "tool" || !message.tool_call_id || !pending.delete(message.tool_call_id)) break;
+      next++;
+    }
+    if (pending.size > 0) break;
+
+    end = next;
+  }
+
+  return entries.slice(0, end);
+}
+
+// Turns already taken by the resumed messages
+export function completedTurns(entries: TranscriptEntry[]): number {
+  return entries.filter((entry) => entry.message.role === "assistant").length;
+}
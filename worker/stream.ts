@@ -0,0 +1,87 @@
+import type { ChatCompletionChunk, ChatCompletionResponse, TokenUsage, ToolCall } from "./types";
+
+type FinishReason = ChatCompletionResponse["choices"][number]["finish_reason"];
+
+// Read an OpenAI-compatible server-sent event stream and assemble the chunks
+// into a regular ChatCompletionResponse. onText receives each content delta.
+export async function readChatCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onText: (delta: string) => Promise<void> | void,
+): Promise<ChatCompletionResponse> {
+  let id = "";
+  let model = "";
+  let content: string | null = null;
+  let finishReason: FinishReason = "stop";
+  let usage: TokenUsage | undefined;
+  const toolCalls: ToolCall[] = [];
+
+  const applyChunk = async (chunk: ChatCompletionChunk) => {
+    id ||= chunk.id;
+    model ||= chunk.model;
+    // With include_usage the final chunk carries usage and no choices
+    if (chunk.usage) usage = chunk.usage;
+
+    const choice = chunk.choices[0];
+    if (!choice) return;
+
+    if (choice.delta.content) {
+      content = (content ?? "") + choice.delta.content;
+      await onText(choice.delta.content);
+    }
+
+    // Tool calls arrive in pieces keyed by index; arguments are concatenated
+    for (const delta of choice.delta.tool_calls ?? []) {
+      const toolCall = (toolCalls[delta.index] ??= {
+        id: "",
+        type: "function",
+        function: { name: "", arguments: "" },
+      });
+      if (delta.id) toolCall.id = delta.id;
+      if (delta.function?.name) toolCall.function.name += delta.function.name;
+      if (delta.function?.arguments) toolCall.function.arguments += delta.function.arguments;
+    }
+
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+  };
+
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Events are separated by newlines; keep any trailing partial line
+    const lines = buffer.split("\n");
+    buffer = done ? "" : (lines.pop() ?? "");
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith("data:")) continue;
+
+      const data = trimmed.slice("data:".length).trim();
+      if (data === "[DONE]") continue;
+
+      await applyChunk(JSON.parse(data) as ChatCompletionChunk);
+    }
+
+    if (done) break;
+  }
+
+  return {
+    id,
+    model,
+    choices: [
+      {
+        message: {
+          role: "assistant",
+          content,
+          tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+        },
+        finish_reason: finishReason,
+      },
+    ],
+    usage,
+  };
+}
@@ -1,33 +1,11 @@
-export interface SearchReposInput {
-  query: string;
-  limit?: number;
-}
-
-export interface GetRepoInput {
-  owner: string;
-  repo: string;
-}
-
-// Type guards for tool inputs
-export function isSearchReposInput(value: unknown): value is SearchReposInput {
-  return (
-    typeof value === "object" &&
-    value !== null &&
-    "query" in value &&
-    typeof (value as SearchReposInput).query === "string"
-  );
-}
-
-export function isGetRepoInput(value: unknown): value is GetRepoInput {
-  return (
-    typeof value === "object" &&
-    value !== null &&
-    "owner" in value &&
-    "repo" in value &&
-    typeof (value as GetRepoInput).owner === "string" &&
-    typeof (value as GetRepoInput).repo === "string"
-  );
-}
+import { z } from "zod";
+import { defineTool, toolError, ToolRegistry } from "./registry";
+import { GitHubError, GitHubRateLimitError } from "./github";
+import { PackageRegistryError } from "./packages";
+import type { PackageDetail, PackageSummary } from "./packages";
+import { BlockedUrlError, WebFetchError } from "./web";
+import type { WebPage } from "./web";
+import { FETCH_URL_MAX_CHARS, README_MAX_CHARS } from "./constants";
 
 interface GitHubSearchResponse {
   items: Array<{ full_name: string; stargazers_count: number }>;
@@ -44,69 +22,102 @@ interface GitHubRepoResponse {
   updated_at: string;
 }
 
-export const searchReposTool = {
-  name: "search_repos" as const,
+interface GitHubReadmeResponse {
+  path: string;
+  content: string;
+  encoding: string;
+}
+
+interface GitHubReleaseResponse {
+  tag_name: string;
+  name: string | null;
+  published_at: string | null;
+  prerelease: boolean;
+}
+
+interface GitHubContributorResponse {
+  login: string;
+  contributions: number;
+}
+
+interface GitHubIssueSearchResponse {
+  total_count: number;
+}
+
+interface GitHubCommitActivityResponse {
+  week: number;
+  total: number;
+}
+
+const repoInput = {
+  owner: z.string().min(1).describe("Repository owner (e.g., 'cloudflare')"),
+  repo: z.string().min(1).describe("Repository name (e.g., 'workers-sdk')"),
+};
+
+function repoPath(input: { owner: string; repo: string }): string {
+  return `/repos/${encodeURIComponent(input.owner)}/${encodeURIComponent(input.repo)}`;
+}
+
+// README content arrives base64 encoded and may be any UTF-8 text
+function decodeBase64(content: string): string {
+  const bytes = Uint8Array.from(atob(content.replace(/\s/g, "")), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// GitHub failures become tool errors the model can act on. Network errors are
+// rethrown so the workflow step retries them.
+function gitHubToolError(tool: string, error: unknown, notFoundMessage: string): string {
+  if (error instanceof GitHubRateLimitError) {
+    return toolError("rate_limited", tool, error.message, { resetAt: new Date(error.resetAt).toISOString() });
+  }
+  if (error instanceof GitHubError && error.status === 404) {
+    return toolError("not_found", tool, notFoundMessage);
+  }
+  if (error instanceof GitHubError) {
+    return toolError("upstream_error", tool, error.message, { status: error.status });
+  }
+  throw error;
+}
+
+export const searchReposTool = defineTool({
+  name: "search_repos",
   description:
     "Search GitHub repositories by keyword. Returns top results. Use get_repo for details.",
-  input_schema: {
-    type: "object" as const,
-    properties: {
-      query: {
-        type: "string",
-        description: "Search query (e.g., 'typescript orm')",
-      },
-      limit: { type: "number", description: "Max results (default 5)" },
-    },
-    required: ["query"],
-  },
-  run: async (input: SearchReposInput): Promise<string> => {
-    const response = await fetch(
-      `https://api.github.com/search/repositories?q=${encodeURIComponent(input.query)}&sort=stars&per_page=${input.limit ?? 5}`,
-      {
-        headers: {
-          Accept: "application/vnd.github+json",
-          "User-Agent": "DurableAgent/1.0",
-        },
-      },
-    );
-    if (!response.ok) return `Search failed: ${response.status}`;
-    const data = await response.json<GitHubSearchResponse>();
+  inputSchema: z.object({
+    query: z.string().min(1).describe("Search query (e.g., 'typescript orm')"),
+    limit: z.number().int().min(1).max(50).optional().describe("Max results (default 5)"),
+  }),
+  run: async (input, { github }) => {
+    let data: GitHubSearchResponse;
+    try {
+      data = await github.get<GitHubSearchResponse>(
+        `/search/repositories?q=${encodeURIComponent(input.query)}&sort=stars&per_page=${input.limit ?? 5}`,
+      );
+    } catch (error) {
+      return gitHubToolError("search_repos", error, `No results for: ${input.query}`);
+    }
     return JSON.stringify(
       data.items.map((r) => ({ name: r.full_name, stars: r.stargazers_count })),
     );
   },
-};
+});
 
-export const getRepoTool = {
-  name: "get_repo" as const,
+export const getRepoTool = defineTool({
+  name: "get_repo",
   description:
     "Get detailed info about a GitHub repository including stars, forks, and description.",
-  input_schema: {
-    type: "object" as const,
-    properties: {
-      owner: {
-        type: "string",
-        description: "Repository owner (e.g., 'cloudflare')",
-      },
-      repo: {
-        type: "string",
-        description: "Repository name (e.g., 'workers-sdk')",
-      },
-    },
-    required: ["owner", "repo"],
-  },
-  run: async (input: GetRepoInput): Promise<string> => {
-    const response = await fetch(
-      `https://api.github.com/repos/${input.owner}/${input.repo}`,
-      {
-        headers: {
-          Accept: "application/vnd.github+json",
-          "User-Agent": "DurableAgent/1.0",
-        },
-      },
-    );
-    if (!response.ok) return `Repo not found: ${input.owner}/${input.repo}`;
-    const data = await response.json<GitHubRepoResponse>();
+  inputSchema: z.object(repoInput),
+  run: async (input, { github }) => {
+    let data: GitHubRepoResponse;
+    try {
+      data = await github.get<GitHubRepoResponse>(repoPath(input));
+    } catch (error) {
+      return gitHubToolError("get_repo", error, `Repo not found: ${input.owner}/${input.repo}`);
+    }
     return JSON.stringify({
       name: data.full_name,
       description: data.description,
@@ -118,6 +129,240 @@ export const getRepoTool = {
       updated: data.updated_at,
     });
   },
-};
+});
+
+export const getReadmeTool = defineTool({
+  name: "get_readme",
+  description: `Read a repository's README as Markdown, truncated to ${README_MAX_CHARS} characters.`,
+  inputSchema: z.object(repoInput),
+  run: async (input, { github }) => {
+    let data: GitHubReadmeResponse;
+    try {
+      data = await github.get<GitHubReadmeResponse>(`${repoPath(input)}/readme`);
+    } catch (error) {
+      return gitHubToolError("get_readme", error, `No README found for ${input.owner}/${input.repo}`);
+    }
+    const text = data.encoding === "base64" ? decodeBase64(data.content) : data.content;
+    return JSON.stringify({
+      path: data.path,
+      truncated: text.length > README_MAX_CHARS,
+      content: text.slice(0, README_MAX_CHARS),
+    });
+  },
+});
+
+export const listReleasesTool = defineTool({
+  name: "list_releases",
+  description: "List a repository's most recent releases with their tags and publish dates.",
+  inputSchema: z.object({
+    ...repoInput,
+    limit: z.number().int().min(1).max(30).optional().describe("Max releases (default 5)"),
+  }),
+  run: async (input, { github }) => {
+    let data: GitHubReleaseResponse[];
+    try {
+      data = await github.get<GitHubReleaseResponse[]>(`${repoPath(input)}/releases?per_page=${input.limit ?? 5}`);
+    } catch (error) {
+      return gitHubToolError("list_releases", error, `Repo not found: ${input.owner}/${input.repo}`);
+    }
+    return JSON.stringify(
+      data.map((r) => ({
+        tag: r.tag_name,
+        name: r.name || r.tag_name,
+        published: r.published_at,
+        prerelease: r.prerelease,
+      })),
+    );
+  },
+});
+
+export const listContributorsTool = defineTool({
+  name: "list_contributors",
+  description: "List a repository's top contributors by commit count.",
+  inputSchema: z.object({
+    ...repoInput,
+    limit: z.number().int().min(1).max(30).optional().describe("Max contributors (default 5)"),
+  }),
+  run: async (input, { github }) => {
+    let data: GitHubContributorResponse[];
+    try {
+      data = await github.get<GitHubContributorResponse[]>(
+        `${repoPath(input)}/contributors?per_page=${input.limit ?? 5}`,
+      );
+    } catch (error) {
+      return gitHubToolError("list_contributors", error, `Repo not found: ${input.owner}/${input.repo}`);
+    }
+    return JSON.stringify(data.map((c) => ({ login: c.login, commits: c.contributions })));
+  },
+});
+
+export const getIssueActivityTool = defineTool({
+  name: "get_issue_activity",
+  description:
+    "Count issues and pull requests opened and closed in a repository over the last N days, plus how many are still open (issues and pull requests together).",
+  inputSchema: z.object({
+    ...repoInput,
+    days: z.number().int().min(1).max(365).optional().describe("Window in days (default 90)"),
+  }),
+  // Unauthenticated search allows 10 requests a minute, so only the windowed
+  // counts use it; issues are derived from the combined count, and the open
+  // count comes from the repository itself
+  run: async (input, { github }) => {
+    const days = input.days ?? 90;
+    const since = isoDate(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+    const count = async (qualifiers: string) => {
+      const query = encodeURIComponent(`repo:${input.owner}/${input.repo} ${qualifiers}`);
+      const data = await github.get<GitHubIssueSearchResponse>(`/search/issues?q=${query}&per_page=1`);
+      return data.total_count;
+    };
+
+    try {
+      const [opened, prsOpened, issuesClosed, prsMerged, repo] = await Promise.all([
+        count(`created:>=${since}`),
+        count(`is:pr created:>=${since}`),
+        count(`is:issue closed:>=${since}`),
+        count(`is:pr merged:>=${since}`),
+        github.get<GitHubRepoResponse>(repoPath(input)),
+      ]);
+      return JSON.stringify({
+        since,
+        issues: { opened: opened - prsOpened, closed: issuesClosed },
+        pullRequests: { opened: prsOpened, merged: prsMerged },
+        openIssuesAndPullRequests: repo.open_issues_count,
+      });
+    } catch (error) {
+      // Search answers 422 when the repository does not exist
+      if (error instanceof GitHubError && error.status === 422) {
+        return toolError("not_found", "get_issue_activity", `Repo not found: ${input.owner}/${input.repo}`);
+      }
+      return gitHubToolError("get_issue_activity", error, `Repo not found: ${input.owner}/${input.repo}`);
+    }
+  },
+});
+
+export const getCommitActivityTool = defineTool({
+  name: "get_commit_activity",
+  description: "Get a repository's weekly commit counts for recent weeks, oldest first.",
+  inputSchema: z.object({
+    ...repoInput,
+    weeks: z.number().int().min(1).max(52).optional().describe("Number of recent weeks (default 12)"),
+  }),
+  run: async (input, { github }) => {
+    let data: GitHubCommitActivityResponse[];
+    try {
+      data = await github.get<GitHubCommitActivityResponse[]>(`${repoPath(input)}/stats/commit_activity`);
+    } catch (error) {
+      return gitHubToolError("get_commit_activity", error, `Repo not found: ${input.owner}/${input.repo}`);
+    }
+    const weeks = data.slice(-(input.weeks ?? 12)).map((w) => ({
+      week: isoDate(new Date(w.week * 1000)),
+      commits: w.total,
+    }));
+    return JSON.stringify({ total: weeks.reduce((sum, w) => sum + w.commits, 0), weeks });
+  },
+});
+
+// Registry failures become tool errors; network errors are rethrown for a step retry
+function packageToolError(tool: string, error: unknown, notFoundMessage: string): string {
+  if (error instanceof PackageRegistryError && error.status === 404) {
+    return toolError("not_found", tool, notFoundMessage);
+  }
+  if (error instanceof PackageRegistryError) {
+    return toolError("upstream_error", tool, error.message, { status: error.status });
+  }
+  throw error;
+}
+
+const ecosystemInput = z.enum(["npm", "pypi"]).describe("Package registry: 'npm' or 'pypi'");
+
+export const searchPackagesTool = defineTool({
+  name: "search_packages",
+  description: "Search the npm registry or PyPI for packages by keyword. Use get_package for details.",
+  inputSchema: z.object({
+    ecosystem: ecosystemInput,
+    query: z.string().min(1).describe("Search query (e.g., 'llm agent')"),
+    limit: z.number().int().min(1).max(20).optional().describe("Max results (default 5)"),
+  }),
+  run: async (input, { packages }) => {
+    let results: PackageSummary[];
+    try {
+      results = await packages.search(input.ecosystem, input.query, input.limit ?? 5);
+    } catch (error) {
+      return packageToolError("search_packages", error, `No packages found for: ${input.query}`);
+    }
+    return JSON.stringify(results);
+  },
+});
+
+export const getPackageTool = defineTool({
+  name: "get_package",
+  description:
+    "Get an npm or PyPI package's latest version, release dates, weekly downloads, dependency count and source repository. " +
+    "githubRepo can be passed to get_repo.",
+  inputSchema: z.object({
+    ecosystem: ecosystemInput,
+    name: z.string().min(1).describe("Package name (e.g., 'hono' or 'langchain')"),
+  }),
+  run: async (input, { packages }) => {
+    let detail: PackageDetail;
+    try {
+      detail = await packages.get(input.ecosystem, input.name);
+    } catch (error) {
+      return packageToolError("get_package", error, `Package not found on ${input.ecosystem}: ${input.name}`);
+    }
+    return JSON.stringify(detail);
+  },
+});
+
+// Each call runs as its own checkpointed tool step, so a fetched page is not
+// requested again when the workflow replays
+export const fetchUrlTool = defineTool({
+  name: "fetch_url",
+  description:
+    "Fetch a web page such as a documentation site or blog post and return its readable text. " +
+    "Private networks and some domains are blocked.",
+  inputSchema: z.object({
+    url: z.string().min(1).describe("Absolute http(s) URL"),
+    maxChars: z
+      .number()
+      .int()
+      .min(100)
+      .max(FETCH_URL_MAX_CHARS)
+      .optional()
+      .describe(`Max characters of text to return (default ${FETCH_URL_MAX_CHARS})`),
+  }),
+  // Reaches arbitrary hosts, so each URL is shown to the user first
+  requiresApproval: true,
+  run: async (input, { web }) => {
+    let page: WebPage;
+    try {
+      page = await web.fetchPage(input.url, Math.min(input.maxChars ?? web.maxChars, web.maxChars));
+    } catch (error) {
+      if (error instanceof BlockedUrlError) {
+        return toolError("blocked_url", "fetch_url", error.message);
+      }
+      if (error instanceof WebFetchError && error.status === 404) {
+        return toolError("not_found", "fetch_url", error.message);
+      }
+      if (error instanceof WebFetchError) {
+        return toolError("upstream_error", "fetch_url", error.message, { status: error.status });
+      }
+      throw error;
+    }
+    return JSON.stringify(page);
+  },
+});
 
-export const tools = [searchReposTool, getRepoTool];
+// Tools available to the agent; register new tools here
+export const toolRegistry = new ToolRegistry([
+  searchReposTool,
+  getRepoTool,
+  searchPackagesTool,
+  getPackageTool,
+  getReadmeTool,
+  listReleasesTool,
+  listContributorsTool,
+  getIssueActivityTool,
+  getCommitActivityTool,
+  fetchUrlTool,
+]);
@@ -1,13 +1,30 @@
 import { z } from "zod";
+import {
+  AVAILABLE_MODELS,
+  MAX_AGENT_TURNS,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_TASKS,
+  MAX_OUTPUT_TOKENS,
+  MAX_STOP_SEQUENCES,
+  MAX_TOOL_CONCURRENCY,
+} from "./constants";
+import type { ModelId } from "./constants";
+import { PERSONAS } from "./personas";
+import type { PersonaId } from "./personas";
 
 // Agent status constants
 export const AgentStatus = {
   IDLE: "idle",
+  QUEUED: "queued",
   RUNNING: "running",
   SEARCHING: "searching",
   ANALYZING: "analyzing",
   FETCHING: "fetching",
+  AWAITING_APPROVAL: "awaiting_approval",
   COMPLETE: "complete",
+  MAX_TURNS_REACHED: "max_turns_reached",
+  CANCELLED: "cancelled",
+  BUDGET_EXCEEDED: "budget_exceeded",
   ERROR: "error",
 } as const;
 
@@ -17,16 +34,76 @@ export type AgentStatus = (typeof AgentStatus)[keyof typeof AgentStatus];
 export interface AgentState {
   status: AgentStatus;
   message: string;
+  // Run the state belongs to, so a reloaded page can reattach to it
+  instanceId?: string;
+  task?: string;
+  // Place in the RunQueue while the run waits for a free slot
+  queuePosition?: number | undefined;
+  // Runs submitted while another run owned this state, oldest first
+  queuedRuns?: QueuedRun[];
   result?: string;
+  // Assistant text streamed so far for the in-flight LLM turn
+  partial?: string;
+  // Tool calls paused until a human approves or rejects them
+  pendingApprovals?: PendingApproval[];
+  // Model handling the current turn, or the one that produced the result
+  model?: string;
+  // Tokens used and estimated cost of the current run so far
+  usage?: RunUsage;
+  // Why the run failed, set together with the error status
+  error?: RunFailure;
+  // Ordered step events of the current run, sent to clients when they connect
+  events?: StepEvent[];
+  // Aggregate progress of the batch this agent is running
+  batch?: BatchProgress;
+}
+
+// A run submitted while another one owns the agent state
+export interface QueuedRun {
+  instanceId: string;
+  task: string;
+  // 1-based place in the RunQueue
+  position: number;
+}
+
+// A tool call waiting on a decision via POST /api/approval
+export interface PendingApproval {
+  instanceId: string;
+  toolCallId: string;
+  tool: string;
+  arguments: string;
+}
+
+// Event payload delivered to the waiting workflow
+export interface ApprovalDecision {
+  approved: boolean;
 }
 
 // API types
 export interface StartWorkflowRequest {
   task: string;
+  agentId?: string;
+  toolConcurrency?: number;
+  model?: ModelId;
+  fallbackModels?: ModelId[];
+  maxTokens?: number;
+  temperature?: number;
+  stop?: string[];
+  tokenBudget?: number;
+  persona?: PersonaId;
+  maxTurns?: number;
 }
 
 export interface StartWorkflowResponse {
   instanceId: string;
+  agentId: string;
+  // Position in the run queue, null if the run started right away
+  queuePosition: number | null;
+}
+
+export interface ResetRequest {
+  instanceId?: string | null;
+  agentId?: string;
 }
 
 export interface WorkflowStatusResponse {
@@ -34,18 +111,202 @@ export interface WorkflowStatusResponse {
   output: unknown;
 }
 
+export interface ApprovalRequest {
+  instanceId: string;
+  toolCallId: string;
+  approved: boolean;
+}
+
+// Workflow params passed from the API to AgentWorkflow
+export interface WorkflowParams {
+  task: string;
+  agentId: string;
+  toolConcurrency: number;
+  persona: PersonaId;
+  // Tool-using turns before the final answer is forced, at most MAX_AGENT_TURNS
+  maxTurns: number;
+  model: ModelId;
+  // Tried in order when a turn fails on the primary model
+  fallbackModels: ModelId[];
+  generation: GenerationOptions;
+  // Total tokens after which the loop stops with budget_exceeded, null for no limit
+  tokenBudget: number | null;
+  // Run whose completed turns this run continues from, null for a fresh run
+  parentInstanceId: string | null;
+}
+
+// Sampling parameters forwarded to every LLM call of a run
+export interface GenerationOptions {
+  maxTokens: number;
+  temperature?: number | undefined;
+  stop?: string[] | undefined;
+}
+
 // Workflow result
-export interface WorkflowResult {
-  status: "complete" | "max_turns_reached";
+export type WorkflowResult = WorkflowSuccess | WorkflowFailure;
+
+interface WorkflowResultBase {
   turns: number;
+  // Model that answered each turn, in turn order
+  models: ModelId[];
+  usage: RunUsage;
+}
+
+export interface WorkflowSuccess extends WorkflowResultBase {
+  status: "complete" | "max_turns_reached" | "budget_exceeded";
   result?: string | null;
 }
 
+export interface WorkflowFailure extends WorkflowResultBase {
+  status: "failed";
+  result?: null;
+  error: RunFailure;
+}
+
+// Category of a failed run, so clients can tell a setup problem from a transient one
+export type RunErrorCode = "gateway_auth" | "rate_limit" | "tool_failure" | "invalid_response" | "unknown";
+
+export interface RunFailure {
+  code: RunErrorCode;
+  // Human-readable explanation for the UI
+  message: string;
+  // Underlying error text, for debugging
+  detail: string;
+}
+
+// Token counts summed over every LLM turn of a run
+export interface RunUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Based on the per-model price table in constants.ts
+  estimatedCostUsd: number;
+}
+
+// Run history stored in the ResearchAgent's SQLite storage
+export type RunStatus = "queued" | "running" | "cancelled" | WorkflowResult["status"];
+
+export interface RunSummary {
+  instanceId: string;
+  task: string;
+  status: RunStatus;
+  parentInstanceId: string | null;
+  startedAt: number;
+  endedAt: number | null;
+  turns: number | null;
+}
+
+export interface RunStep {
+  step: string;
+  status: string;
+  message: string;
+  createdAt: number;
+}
+
+export interface RunDetail extends RunSummary {
+  params: WorkflowParams;
+  result: WorkflowResult | null;
+  steps: RunStep[];
+}
+
+export interface CancelRunResponse {
+  instanceId: string;
+  status: RunStatus;
+}
+
+// Batch mode: many tasks fanned out as child AgentWorkflow runs
+export interface BatchRequest extends Omit<StartWorkflowRequest, "task"> {
+  // Either a list of tasks, or a template whose {{name}} placeholders are
+  // filled from each entry of variables
+  tasks?: string[];
+  template?: string;
+  variables?: Record<string, string>[];
+  // Child runs in flight at once
+  concurrency?: number;
+}
+
+export interface BatchResponse {
+  batchId: string;
+  agentId: string;
+  taskCount: number;
+}
+
+// Params passed from the API to BatchWorkflow
+export interface BatchParams {
+  agentId: string;
+  tasks: string[];
+  concurrency: number;
+  // Settings shared by every child run
+  run: Omit<WorkflowParams, "task" | "agentId" | "parentInstanceId">;
+}
+
+export type BatchItemStatus = "pending" | RunStatus;
+
+export interface BatchItem {
+  index: number;
+  task: string;
+  // Each child runs on its own agent so runs do not share broadcast state
+  agentId: string;
+  instanceId: string | null;
+  status: BatchItemStatus;
+  result: string | null;
+  error: string | null;
+}
+
+export interface BatchProgress {
+  batchId: string;
+  status: "running" | "complete";
+  total: number;
+  succeeded: number;
+  failed: number;
+  items: BatchItem[];
+}
+
+// Combined result of a finished batch, as data and as a Markdown document
+export interface BatchReport extends BatchProgress {
+  markdown: string;
+}
+
+export interface BatchDetail {
+  batchId: string;
+  startedAt: number;
+  endedAt: number | null;
+  progress: BatchProgress;
+  report: BatchReport | null;
+}
+
+export interface RunListResponse {
+  runs: RunSummary[];
+}
+
+// One message of a run's conversation, with the step that produced it
+export interface TranscriptEntry {
+  seq: number;
+  // Workflow step name, null for the initial task message
+  step: string | null;
+  // Times the step was retried before it succeeded, null if not a retried step.
+  // A lower bound: retries before an eviction of the workflow are not counted.
+  retries: number | null;
+  createdAt: number;
+  message: ChatMessage;
+}
+
+export interface TranscriptResponse {
+  instanceId: string;
+  entries: TranscriptEntry[];
+}
+
 // Progress update from workflow to agent
 export interface ProgressUpdate {
   status: string;
   message: string;
   result?: string | undefined;
+  partial?: string | undefined;
+  model?: string | undefined;
+  usage?: RunUsage | undefined;
+  error?: RunFailure | undefined;
+  // Appended to the agent's event log
+  event?: StepEvent | undefined;
 }
 
 // OpenAI-compatible types for AI Gateway
@@ -84,7 +345,12 @@ export interface ChatCompletionRequest {
   model: string;
   messages: ChatMessage[];
   max_tokens?: number;
+  temperature?: number | undefined;
+  stop?: string[] | undefined;
   tools?: ToolDefinition[];
+  tool_choice?: "auto" | "none";
+  stream?: boolean;
+  stream_options?: { include_usage: boolean };
 }
 
 export interface ChatCompletionResponse {
@@ -98,22 +364,161 @@ export interface ChatCompletionResponse {
     };
     finish_reason: "stop" | "tool_calls" | "length" | "content_filter";
   }[];
+  usage?: TokenUsage | undefined;
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+// Streaming chunk (stream: true), assembled into a ChatCompletionResponse
+export interface ChatCompletionChunk {
+  id: string;
+  model: string;
+  choices: {
+    index: number;
+    delta: {
+      role?: "assistant";
+      content?: string | null;
+      tool_calls?: ToolCallDelta[];
+    };
+    finish_reason: ChatCompletionResponse["choices"][number]["finish_reason"] | null;
+  }[];
+  usage?: TokenUsage | null;
+}
+
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
 }
 
 // Zod schemas for validation
 
+// Agent IDs become Durable Object names, so keep them short and URL-safe
+export const AgentIdSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]{1,64}$/, "Agent ID must be 1-64 letters, digits, '-' or '_'");
+
+export const ModelIdSchema = z.enum(AVAILABLE_MODELS.map((m) => m.id) as [ModelId, ...ModelId[]]);
+
+export const PersonaIdSchema = z.enum(PERSONAS.map((p) => p.id) as [PersonaId, ...PersonaId[]]);
+
 export const StartWorkflowRequestSchema = z.object({
   task: z.string().min(1, "Task must not be empty"),
+  agentId: AgentIdSchema.optional(),
+  toolConcurrency: z.number().int().min(1).max(MAX_TOOL_CONCURRENCY).optional(),
+  model: ModelIdSchema.optional(),
+  fallbackModels: z.array(ModelIdSchema).max(AVAILABLE_MODELS.length).optional(),
+  maxTokens: z.number().int().min(1).max(MAX_OUTPUT_TOKENS).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  stop: z.array(z.string().min(1)).max(MAX_STOP_SEQUENCES).optional(),
+  tokenBudget: z.number().int().min(1).optional(),
+  persona: PersonaIdSchema.optional(),
+  maxTurns: z.number().int().min(1).max(MAX_AGENT_TURNS).optional(),
+});
+
+// Step events let clients follow a run without parsing progress messages. Each
+// id is derived from the workflow step, so a replayed event is recorded once.
+const StepEventBaseSchema = z.object({
+  id: z.string().min(1),
+  at: z.number(),
 });
 
+export const StepEventSchema = z.discriminatedUnion("type", [
+  StepEventBaseSchema.extend({
+    type: z.literal("turn_start"),
+    turn: z.number().int().min(0),
+  }),
+  StepEventBaseSchema.extend({
+    type: z.literal("llm_response"),
+    turn: z.number().int().min(0),
+    model: z.string(),
+    finishReason: z.string(),
+    // Names of the tools the model asked for, empty for a final answer
+    toolCalls: z.array(z.string()),
+    durationMs: z.number().min(0),
+  }),
+  StepEventBaseSchema.extend({
+    type: z.literal("tool_start"),
+    turn: z.number().int().min(0),
+    toolCallId: z.string(),
+    tool: z.string(),
+    arguments: z.string(),
+  }),
+  StepEventBaseSchema.extend({
+    type: z.literal("tool_end"),
+    turn: z.number().int().min(0),
+    toolCallId: z.string(),
+    tool: z.string(),
+    resultPreview: z.string(),
+    durationMs: z.number().min(0),
+    // Tool error code or denial, null when the call succeeded
+    error: z.string().nullable(),
+  }),
+  StepEventBaseSchema.extend({
+    type: z.literal("compaction"),
+    turn: z.number().int().min(0),
+    // Older tool results that were truncated
+    compacted: z.number().int().min(0),
+    tokensBefore: z.number().min(0),
+    tokensAfter: z.number().min(0),
+  }),
+  StepEventBaseSchema.extend({
+    type: z.literal("model_fallback"),
+    turn: z.number().int().min(0),
+    fromModel: z.string(),
+    model: z.string(),
+    reason: z.string(),
+  }),
+  StepEventBaseSchema.extend({
+    type: z.literal("error"),
+    code: z.string(),
+    message: z.string(),
+  }),
+]);
+
+export type StepEvent = z.infer<typeof StepEventSchema>;
+
+export const BatchRequestSchema = StartWorkflowRequestSchema.omit({ task: true })
+  .extend({
+    tasks: z.array(z.string().min(1, "Task must not be empty")).min(1).max(MAX_BATCH_TASKS).optional(),
+    template: z.string().min(1).optional(),
+    variables: z.array(z.record(z.string(), z.string())).min(1).max(MAX_BATCH_TASKS).optional(),
+    concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).optional(),
+  })
+  .refine((body) => (body.tasks === undefined) !== (body.template === undefined), {
+    message: "Provide either tasks or a template",
+  })
+  .refine((body) => (body.template === undefined) === (body.variables === undefined), {
+    message: "A template needs variables, and variables need a template",
+  });
+
 export const ProgressUpdateSchema = z.object({
   status: z.string(),
   message: z.string(),
   result: z.string().optional(),
 });
 
+export const ApprovalRequestSchema = z.object({
+  instanceId: z.string().min(1),
+  toolCallId: z.string().min(1),
+  approved: z.boolean(),
+});
+
+export const RunsQuerySchema = z.object({
+  agentId: AgentIdSchema.optional(),
+});
+
 export const ResetRequestSchema = z.object({
-  instanceId: z.string().optional(),
+  instanceId: z.string().nullish(),
+  agentId: AgentIdSchema.optional(),
 });
 
 // Type guards (kept for ChatCompletionResponse which is used in workflow.ts)
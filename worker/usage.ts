@@ -0,0 +1,22 @@
+import { MODEL_PRICES } from "./constants";
+import type { ModelId } from "./constants";
+import type { RunUsage, TokenUsage } from "./types";
+
+export function emptyUsage(): RunUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCostUsd: 0 };
+}
+
+// Add one LLM call's usage to the run total, pricing it at the model's rates
+export function addUsage(total: RunUsage, model: ModelId, usage: TokenUsage | undefined): RunUsage {
+  if (!usage) return total;
+
+  const price = MODEL_PRICES[model];
+  const cost = (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+
+  return {
+    promptTokens: total.promptTokens + usage.prompt_tokens,
+    completionTokens: total.completionTokens + usage.completion_tokens,
+    totalTokens: total.totalTokens + usage.total_tokens,
+    estimatedCostUsd: total.estimatedCostUsd + cost,
+  };
+}
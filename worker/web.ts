@@ -0,0 +1,337 @@
+import {
+  DNS_OVER_HTTPS_URL,
+  FETCH_URL_MAX_BYTES,
+  FETCH_URL_MAX_CHARS,
+  FETCH_URL_MAX_REDIRECTS,
+  FETCH_URL_TIMEOUT_MS,
+} from "./constants";
+
+export interface WebFetcherOptions {
+  // Domains fetch_url may read, including their subdomains; empty allows any public host
+  allow?: string[];
+  // Domains that are always refused, including their subdomains
+  deny?: string[];
+  maxChars?: number;
+  fetch?: typeof fetch;
+  // Addresses of a hostname, used to refuse names that point into private networks
+  resolve?: (hostname: string) => Promise<string[]>;
+}
+
+export interface WebPage {
+  url: string;
+  status: number;
+  title: string | null;
+  truncated: boolean;
+  content: string;
+}
+
+// The page was refused by the URL policy before it was fetched
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+export class WebFetchError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "WebFetchError";
+    this.status = status;
+  }
+}
+
+// Content types returned as text; anything else is refused
+const TEXT_CONTENT_TYPES = ["text/", "application/json", "application/xml", "application/xhtml+xml"];
+
+// Elements whose text is not part of the readable page. <head> is not listed
+// because its end tag is optional; its only text is in title, script and style.
+const SKIPPED_ELEMENTS = "title, script, style, noscript, template, svg, iframe, nav, footer";
+
+// Elements that start a new line in the extracted text
+const BLOCK_ELEMENTS =
+  "address, article, aside, blockquote, br, dd, div, dl, dt, figcaption, h1, h2, h3, h4, h5, h6, hr, li, main, ol, p, pre, section, table, td, th, tr, ul";
+
+const PRIVATE_HOSTNAME_SUFFIXES = [".localhost", ".local", ".internal", ".home.arpa"];
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  if (a === undefined || b === undefined) return false;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+// Loopback, private, link-local, carrier-grade NAT, multicast and reserved
+// ranges, including IPv4 addresses embedded in IPv6
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, "").toLowerCase();
+  const v4 = parseIPv4(ip);
+  if (v4) return isPrivateIPv4(v4);
+  if (!ip.includes(":")) return false;
+
+  if (ip === "::" || ip === "::1") return true;
+
+  // IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) and NAT64
+  // (64:ff9b::/96) addresses reach the embedded IPv4 address. URL parsing
+  // writes its last 32 bits in hex, e.g. ::ffff:a00:1.
+  const embedded = /^(?:::ffff:|::|64:ff9b::)(?:(\d+\.\d+\.\d+\.\d+)|([\da-f]{1,4}):([\da-f]{1,4}))$/.exec(ip);
+  if (embedded?.[1]) return isPrivateAddress(embedded[1]);
+  if (embedded?.[2] && embedded[3]) {
+    const [high, low] = [parseInt(embedded[2], 16), parseInt(embedded[3], 16)];
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  // fc00::/7 unique local, fe80::/10 link-local, ff00::/8 multicast, 64:ff9b:1::/48 local-use NAT64
+  return /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith("ff") || ip.startsWith("64:ff9b:1:");
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+function normalizeDomains(domains: string[] | undefined): string[] {
+  return (domains ?? []).map((domain) => domain.trim().toLowerCase().replace(/^\*?\./, "")).filter(Boolean);
+}
+
+// Comma- or whitespace-separated domains from a var
+export function parseDomainList(value: string | undefined): string[] {
+  return value ? value.split(/[\s,]+/).filter(Boolean) : [];
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+// Out-of-range numeric entities become U+FFFD, as browsers render them
+function fromCodePoint(codePoint: number): string {
+  return Number.isInteger(codePoint) && codePoint > 0 && codePoint <= 0x10ffff
+    ? String.fromCodePoint(codePoint)
+    : "\ufffd";
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#x") || name.startsWith("#X")) return fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith("#")) return fromCodePoint(Number(name.slice(1)));
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function collapseWhitespace(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.replace(/[ \t\f\r\v]+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Stops reading a body after maxBytes so a huge page cannot exhaust memory
+function limitBody(body: ReadableStream<Uint8Array>, maxBytes: number): ReadableStream<Uint8Array> {
+  let remaining = maxBytes;
+  const reader = body.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done || remaining <= 0) {
+        if (!done) await reader.cancel();
+        controller.close();
+        return;
+      }
+      const chunk = value.byteLength > remaining ? value.subarray(0, remaining) : value;
+      remaining -= chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+    cancel: () => reader.cancel(),
+  });
+}
+
+// Readable text of an HTML page, streamed through HTMLRewriter
+export async function extractText(response: Response): Promise<{ title: string | null; text: string }> {
+  const parts: string[] = [];
+  let title = "";
+  let skipDepth = 0;
+
+  const rewriter = new HTMLRewriter()
+    .on("title", {
+      text(chunk) {
+        title += chunk.text;
+      },
+    })
+    .on(SKIPPED_ELEMENTS, {
+      element(element) {
+        // A self-closing element such as <svg/> has no end tag to wait for.
+        // Newer runtimes report this up front; older ones throw from onEndTag.
+        const { canHaveContent, selfClosing } = element as Element & { canHaveContent?: boolean; selfClosing?: boolean };
+        if (canHaveContent === false || selfClosing === true) return;
+        try {
+          element.onEndTag(() => {
+            skipDepth--;
+          });
+          skipDepth++;
+        } catch {
+          // No end tag, so there is no content to skip
+        }
+      },
+    })
+    .on(BLOCK_ELEMENTS, {
+      element() {
+        parts.push("\n");
+      },
+    })
+    .onDocument({
+      text(chunk) {
+        if (skipDepth === 0) parts.push(chunk.text);
+      },
+    });
+
+  // Consume the transformed stream so every handler runs
+  await rewriter.transform(response).arrayBuffer();
+
+  return {
+    title: collapseWhitespace(decodeEntities(title)) || null,
+    text: collapseWhitespace(decodeEntities(parts.join(""))),
+  };
+}
+
+async function resolveWithDoH(hostname: string): Promise<string[]> {
+  const lookups = ["A", "AAAA"].map(async (type) => {
+    const response = await fetch(`${DNS_OVER_HTTPS_URL}?name=${encodeURIComponent(hostname)}&type=${type}`, {
+      headers: { Accept: "application/dns-json" },
+    });
+    if (!response.ok) throw new Error(`DNS lookup failed (${response.status}) for ${hostname}`);
+    const data = await response.json<{ Answer?: Array<{ type: number; data: string }> }>();
+    // Only address records; CNAME answers are followed by the resolver
+    return (data.Answer ?? []).filter((answer) => answer.type === 1 || answer.type === 28).map((answer) => answer.data);
+  });
+  return (await Promise.all(lookups)).flat();
+}
+
+// Fetches web pages for the fetch_url tool. Every URL, including each
+// redirect target, must pass the allow and deny lists and must not point at a
+// private address, either literally or through DNS.
+export class WebFetcher {
+  private readonly allow: string[];
+  private readonly deny: string[];
+  readonly maxChars: number;
+  private readonly fetcher: typeof fetch;
+  private readonly resolve: (hostname: string) => Promise<string[]>;
+
+  constructor(options: WebFetcherOptions = {}) {
+    this.allow = normalizeDomains(options.allow);
+    this.deny = normalizeDomains(options.deny);
+    this.maxChars = options.maxChars ?? FETCH_URL_MAX_CHARS;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+    this.resolve = options.resolve ?? resolveWithDoH;
+  }
+
+  // Throws BlockedUrlError if the URL may not be fetched
+  async checkUrl(url: URL): Promise<void> {
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new BlockedUrlError(`Only http and https URLs can be fetched, not ${url.protocol}`);
+    }
+    if (url.username || url.password) {
+      throw new BlockedUrlError("URLs with credentials cannot be fetched");
+    }
+
+    const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+    if (hostname === "localhost" || PRIVATE_HOSTNAME_SUFFIXES.some((suffix) => hostname.endsWith(suffix))) {
+      throw new BlockedUrlError(`${hostname} is a private host`);
+    }
+    if (matchesDomain(hostname, this.deny)) {
+      throw new BlockedUrlError(`${hostname} is on the deny list`);
+    }
+    if (this.allow.length > 0 && !matchesDomain(hostname, this.allow)) {
+      throw new BlockedUrlError(`${hostname} is not on the allow list`);
+    }
+
+    const isLiteral = parseIPv4(hostname) !== null || hostname.startsWith("[");
+    let addresses: string[];
+    try {
+      addresses = isLiteral ? [hostname] : await this.resolve(hostname);
+    } catch (error) {
+      throw new WebFetchError(0, `Could not resolve ${hostname}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (addresses.length === 0) {
+      throw new WebFetchError(0, `${hostname} does not resolve to an address`);
+    }
+    if (addresses.some(isPrivateAddress)) {
+      throw new BlockedUrlError(`${hostname} ${isLiteral ? "is" : "resolves to"} a private address`);
+    }
+  }
+
+  async fetchPage(rawUrl: string, maxChars = this.maxChars): Promise<WebPage> {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      throw new BlockedUrlError(`Not a valid URL: ${rawUrl}`);
+    }
+
+    let response: Response | null = null;
+    for (let redirects = 0; ; redirects++) {
+      await this.checkUrl(url);
+      try {
+        response = await this.fetcher(url.toString(), {
+          headers: { Accept: "text/html, text/plain;q=0.9, */*;q=0.5", "User-Agent": "DurableAgent/1.0" },
+          redirect: "manual",
+          signal: AbortSignal.timeout(FETCH_URL_TIMEOUT_MS),
+        });
+      } catch (error) {
+        // Unreachable pages are common, so they are reported to the model rather than retried
+        throw new WebFetchError(0, `Could not reach ${url.hostname}: ${error instanceof Error ? error.message : error}`);
+      }
+
+      const location = response.headers.get("Location");
+      if (response.status < 300 || response.status >= 400 || !location) break;
+      if (redirects >= FETCH_URL_MAX_REDIRECTS) {
+        throw new WebFetchError(response.status, `Too many redirects fetching ${rawUrl}`);
+      }
+      url = new URL(location, url);
+    }
+
+    if (!response.ok) {
+      throw new WebFetchError(response.status, `Fetching ${url} failed with status ${response.status}`);
+    }
+
+    const contentType = (response.headers.get("Content-Type") ?? "text/html").toLowerCase();
+    if (!TEXT_CONTENT_TYPES.some((type) => contentType.startsWith(type))) {
+      throw new WebFetchError(response.status, `Unsupported content type: ${contentType.split(";")[0]}`);
+    }
+
+    const limited = new Response(response.body ? limitBody(response.body, FETCH_URL_MAX_BYTES) : null, response);
+    const isHtml = contentType.startsWith("text/html") || contentType.startsWith("application/xhtml+xml");
+    const { title, text } = isHtml ? await extractText(limited) : { title: null, text: await limited.text() };
+
+    return {
+      url: url.toString(),
+      status: response.status,
+      title,
+      truncated: text.length > maxChars,
+      content: text.slice(0, maxChars),
+    };
+  }
+}
+
+export function createWebFetcher(env: Env): WebFetcher {
+  const maxChars = Number(env.FETCH_URL_MAX_CHARS);
+  return new WebFetcher({
+    allow: parseDomainList(env.FETCH_URL_ALLOWLIST),
+    deny: parseDomainList(env.FETCH_URL_DENYLIST),
+    ...(maxChars > 0 ? { maxChars } : {}),
+  });
+}
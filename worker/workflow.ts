@@ -1,117 +1,398 @@
 import { WorkflowEntrypoint } from "cloudflare:workers";
 import type { WorkflowStep } from "cloudflare:workers";
 import type { WorkflowEvent } from "cloudflare:workers";
-import {
-  tools,
-  searchReposTool,
-  getRepoTool,
-  isSearchReposInput,
-  isGetRepoInput,
-} from "./tools";
+import { NonRetryableError } from "cloudflare:workflows";
+import type { ResearchAgent } from "./agent";
+import { toolRegistry } from "./tools";
+import { toolErrorCode } from "./registry";
+import type { ToolContext, ToolRegistry } from "./registry";
+import { createGitHubClient } from "./github";
+import { PackageRegistryClient } from "./packages";
+import { createWebFetcher } from "./web";
+import { McpClientPool, createMcpClientPool, mcpTool } from "./mcp";
+import { getPersona } from "./personas";
+import { approvalDenial, waitForApproval } from "./approval";
+import { mapWithConcurrency } from "./concurrency";
+import { addUsage, emptyUsage } from "./usage";
+import { compactMessages, estimateTokens } from "./context";
+import { RunError, toRunFailure } from "./errors";
+import { completedTurns, resumableEntries } from "./resume";
+import { getRunQueue } from "./queue";
+import { readChatCompletionStream } from "./stream";
 import { isChatCompletionResponse } from "./types";
 import type {
   WorkflowResult,
   ProgressUpdate,
+  RunUsage,
   ChatMessage,
   ChatCompletionRequest,
   ChatCompletionResponse,
   ToolDefinition,
+  WorkflowParams,
 } from "./types";
-import { MAX_AGENT_TURNS } from "./constants";
+import {
+  COMPACTED_TOOL_RESULT_CHARS,
+  COMPACTION_KEEP_RECENT_TURNS,
+  CONTEXT_COMPACTION_THRESHOLD_TOKENS,
+  EVENT_RESULT_PREVIEW_CHARS,
+  MAX_AGENT_TURNS,
+  STREAM_FLUSH_INTERVAL_MS,
+} from "./constants";
+import type { ModelId } from "./constants";
+
+// An LLM turn answered by one model of the fallback chain
+interface LlmTurn {
+  response: ChatCompletionResponse;
+  model: ModelId;
+  step: string;
+  // Lower bound, see completeTurn()
+  retries: number;
+}
+
+// Models and usage accumulated by the agent loop, kept by run() so a failed
+// run still reports what it spent
+interface RunTotals {
+  // Model that answered each turn
+  models: ModelId[];
+  usage: RunUsage;
+}
 
-type Params = { task: string; agentId: string };
+// Appended once the turn limit is hit so the model answers with what it has
+const FINAL_ANSWER_PROMPT =
+  "You have reached the turn limit and can no longer call tools. Using only the information gathered so far, write your final answer now and mention anything you could not verify.";
 
-export class AgentWorkflow extends WorkflowEntrypoint<Env, Params> {
+// Rate limits, timeouts and server errors are worth retrying; other 4xx are not
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export class AgentWorkflow extends WorkflowEntrypoint<Env, WorkflowParams> {
   private getAIGatewayUrl(): string {
     // Use the compat endpoint for unified billing with OpenAI-compatible format
     return `https://gateway.ai.cloudflare.com/v1/${this.env.CF_ACCOUNT_ID}/${this.env.CF_GATEWAY_ID}/compat/chat/completions`;
   }
 
-  private async callAIGateway(request: ChatCompletionRequest): Promise<ChatCompletionResponse> {
+  // Streams the completion, passing text deltas to onText as they arrive
+  private async callAIGateway(
+    request: ChatCompletionRequest,
+    onText: (delta: string) => Promise<void>,
+  ): Promise<ChatCompletionResponse> {
     const response = await fetch(this.getAIGatewayUrl(), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         "cf-aig-authorization": `Bearer ${this.env.AI_GATEWAY_TOKEN}`,
       },
-      body: JSON.stringify(request),
+      body: JSON.stringify({ ...request, stream: true, stream_options: { include_usage: true } }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`AI Gateway error (${response.status}): ${errorText}`);
+      const message = `AI Gateway error (${response.status}): ${errorText}`;
+      // Skip the step's remaining retries so the turn can fall back sooner
+      throw isRetryableStatus(response.status) ? new Error(message) : new NonRetryableError(message);
+    }
+    if (!response.body) {
+      throw new Error("AI Gateway error: empty response body");
     }
 
-    return response.json();
+    return readChatCompletionStream(response.body, onText);
   }
 
-  // Convert our tool definitions to OpenAI format
-  private getToolDefinitions(): ToolDefinition[] {
-    return tools.map((tool) => ({
-      type: "function" as const,
-      function: {
-        name: tool.name,
-        description: tool.description,
-        parameters: {
-          type: tool.input_schema.type,
-          properties: tool.input_schema.properties,
-          required: tool.input_schema.required,
-        },
-      },
-    }));
-  }
+  // Try each model in order until one answers. A model is abandoned when its
+  // step exhausts retries, fails with a non-retryable error, or is content filtered.
+  private async completeTurn(
+    step: WorkflowStep,
+    agent: DurableObjectStub<ResearchAgent>,
+    baseStepName: string,
+    models: ModelId[],
+    request: Omit<ChatCompletionRequest, "model">,
+    onFallback: (model: ModelId, index: number, reason: string) => Promise<void>,
+  ): Promise<LlmTurn> {
+    let lastError: unknown = new Error("No models configured");
 
-  async run(event: WorkflowEvent<Params>, step: WorkflowStep): Promise<WorkflowResult> {
-    const messages: ChatMessage[] = [
-      { role: "user", content: event.payload.task },
-    ];
+    for (const [index, model] of models.entries()) {
+      if (index > 0) {
+        await onFallback(model, index, lastError instanceof Error ? lastError.message : String(lastError));
+      }
+
+      // The primary model keeps the plain step name
+      const stepName = index === 0 ? baseStepName : `${baseStepName}-fallback-${index}`;
+      // Counts callback runs; the count is checkpointed with the result, so a
+      // replayed step still reports its retries. Workflows does not tell a
+      // step its attempt number, and this counter restarts if the instance is
+      // evicted between retries, so the count is a lower bound.
+      let attempts = 0;
+
+      try {
+        const { response: stepResult, retries } = await step.do(
+          stepName,
+          { retries: { limit: 3, delay: "10 seconds", backoff: "exponential" } },
+          async () => {
+            attempts++;
+            // Relay streamed text to the agent, throttled to limit RPC traffic
+            let streamed = "";
+            let lastFlush = 0;
+            const result = await this.callAIGateway({ ...request, model }, async (delta) => {
+              streamed += delta;
+              const now = Date.now();
+              if (now - lastFlush >= STREAM_FLUSH_INTERVAL_MS) {
+                lastFlush = now;
+                await agent.setPartial(streamed);
+              }
+            });
+            if (streamed) await agent.setPartial(streamed);
+
+            // The assembled completion is checkpointed, not the streamed deltas
+            return { response: JSON.parse(JSON.stringify(result)), retries: attempts - 1 };
+          },
+        );
+
+        if (!isChatCompletionResponse(stepResult)) {
+          console.error("Invalid response from AI Gateway:", stepResult);
+          lastError = new RunError("invalid_response", `Invalid response from ${model}`);
+          continue;
+        }
+        if (stepResult.choices[0]?.finish_reason === "content_filter") {
+          lastError = new RunError("invalid_response", `Response from ${model} was blocked by its content filter`);
+          continue;
+        }
+
+        return { response: stepResult, model, step: stepName, retries };
+      } catch (error) {
+        console.error(`${stepName} failed on ${model}:`, error);
+        lastError = error;
+      }
+    }
 
-    const toolDefinitions = this.getToolDefinitions();
+    throw lastError;
+  }
 
-    // Get agent for real-time updates
+  // Tool definitions in OpenAI format, derived from the registry's Zod schemas
+  private getToolDefinitions(tools: ToolRegistry): ToolDefinition[] {
+    return tools.definitions();
+  }
+
+  async run(event: WorkflowEvent<WorkflowParams>, step: WorkflowStep): Promise<WorkflowResult> {
+    // Get agent for real-time updates and run history
     const agentId = event.payload.agentId;
     const id = this.env.RESEARCH_AGENT.idFromName(agentId);
     const agent = this.env.RESEARCH_AGENT.get(id);
 
+    await agent.startRun(event.instanceId, event.payload);
+
+    const totals: RunTotals = { models: [], usage: emptyUsage() };
+    let result: WorkflowResult;
+    let mcp: McpClientPool | null = null;
+    try {
+      // Only personas that use MCP read MCP_SERVERS, so a bad value cannot fail other runs
+      mcp = getPersona(event.payload.persona).mcp ? createMcpClientPool(this.env) : new McpClientPool([]);
+      result = await this.runAgentLoop(event, step, agent, totals, mcp);
+    } catch (error) {
+      // Report the failure instead of leaving connected clients mid-run
+      console.error("Agent run failed:", error);
+      const failure = toRunFailure(error);
+      const errorUpdate: ProgressUpdate = {
+        status: "error",
+        message: failure.message,
+        partial: "",
+        usage: totals.usage,
+        error: failure,
+        event: { type: "error", id: "error", at: Date.now(), code: failure.code, message: failure.message },
+      };
+      await agent.updateProgress(event.instanceId, "error", errorUpdate);
+
+      result = {
+        status: "failed",
+        turns: totals.models.length,
+        models: totals.models,
+        usage: totals.usage,
+        error: failure,
+      };
+    } finally {
+      await mcp?.close();
+    }
+    await agent.finishRun(event.instanceId, result);
+    // Let the next queued run start
+    await getRunQueue(this.env).release(event.instanceId);
+
+    return result;
+  }
+
+  private async runAgentLoop(
+    event: WorkflowEvent<WorkflowParams>,
+    step: WorkflowStep,
+    agent: DurableObjectStub<ResearchAgent>,
+    totals: RunTotals,
+    mcp: McpClientPool,
+  ): Promise<WorkflowResult> {
+    const messages: ChatMessage[] = [];
+
+    // Every message is also persisted to the run transcript with its step name
+    const addMessages = async (entries: { message: ChatMessage; step: string | null; retries: number | null }[]) => {
+      for (const entry of entries) {
+        messages.push(entry.message);
+        await agent.recordMessage(event.instanceId, { seq: messages.length - 1, ...entry });
+      }
+    };
+
+    // The persona sets the system prompt, the allowed tools and the turn limit
+    const persona = getPersona(event.payload.persona);
+    const tools = toolRegistry.subset(persona.tools);
+    const toolContext: ToolContext = {
+      github: createGitHubClient(this.env),
+      packages: new PackageRegistryClient(),
+      web: createWebFetcher(this.env),
+      mcp,
+    };
+
+    // Tools of the configured MCP servers are discovered once per run, for
+    // personas that opt in; the checkpoint keeps the tool list stable on replay
+    if (persona.mcp && mcp.servers.length > 0) {
+      const discovered = await step.do("mcp-discover", () => mcp.listTools());
+      for (const info of discovered) {
+        const tool = mcpTool(info);
+        if (tools.get(tool.name)) {
+          console.warn(`Skipping MCP tool ${info.name} from ${info.server}: ${tool.name} is already registered`);
+          continue;
+        }
+        tools.register(tool);
+      }
+    }
+    const maxTurns = Math.min(event.payload.maxTurns, MAX_AGENT_TURNS);
+
+    // A retried run continues from the parent's completed turns instead of
+    // repeating their LLM calls and tool requests
+    const { parentInstanceId } = event.payload;
+    let startTurn = 0;
+    if (parentInstanceId) {
+      const resumed = await step.do("resume-from-parent", async () =>
+        resumableEntries((await agent.getTranscript(parentInstanceId)) ?? []),
+      );
+      await addMessages(resumed.map(({ message, step, retries }) => ({ message, step, retries })));
+      startTurn = completedTurns(resumed);
+    }
+    if (messages.length === 0) {
+      await addMessages([
+        { message: { role: "system", content: persona.systemPrompt }, step: null, retries: null },
+        { message: { role: "user", content: event.payload.task }, step: null, retries: null },
+      ]);
+    }
+
+    const toolDefinitions = this.getToolDefinitions(tools);
+
+    // Primary model first, then fallbacks in order
+    const { model, fallbackModels } = event.payload;
+    const modelChain = [model, ...fallbackModels.filter((m) => m !== model)];
+    const { generation } = event.payload;
+
+    // Progress updates are also recorded as run history, keyed by step name
+    const report = (stepName: string, update: ProgressUpdate) =>
+      agent.updateProgress(event.instanceId, stepName, update);
+
+    // Log each switch to the next model in the chain as a model_fallback event
+    const reportFallback =
+      (stepPrefix: string, turn: number) => (fallbackModel: ModelId, index: number, reason: string) =>
+        report(`${stepPrefix}-${index}`, {
+          status: "analyzing",
+          message: `Falling back to ${fallbackModel}...`,
+          model: fallbackModel,
+          event: {
+            type: "model_fallback",
+            id: `${stepPrefix}-${index}`,
+            at: Date.now(),
+            turn,
+            fromModel: modelChain[index - 1] ?? model,
+            model: fallbackModel,
+            reason,
+          },
+        });
+
+    // Log each answered LLM call as an llm_response event
+    const reportResponse = (turn: number, llmTurn: LlmTurn, startedAt: number) => {
+      const choice = llmTurn.response.choices[0];
+      return report(llmTurn.step, {
+        status: "analyzing",
+        message: `${llmTurn.model} responded`,
+        model: llmTurn.model,
+        event: {
+          type: "llm_response",
+          id: llmTurn.step,
+          at: Date.now(),
+          turn,
+          model: llmTurn.model,
+          finishReason: choice?.finish_reason ?? "stop",
+          toolCalls: choice?.message.tool_calls?.map((toolCall) => toolCall.function.name) ?? [],
+          durationMs: Date.now() - startedAt,
+        },
+      });
+    };
+
     // Send initial status (clear any previous result)
     const initialUpdate: ProgressUpdate = {
       status: "searching",
-      message: "Starting analysis...",
-      result: ""
+      message: startTurn > 0 ? `Resuming after turn ${startTurn}...` : "Starting analysis...",
+      result: "",
+      error: undefined
     };
-    await agent.updateProgress(initialUpdate);
+    await report("start", initialUpdate);
 
     // Durable agent loop - each turn is checkpointed
-    for (let turn = 0; turn < MAX_AGENT_TURNS; turn++) {
+    for (let turn = startTurn; turn < maxTurns; turn++) {
       // Update status for each turn
       const turnUpdate: ProgressUpdate = {
         status: "analyzing",
-        message: `Processing turn ${turn + 1}...`
+        message: `Processing turn ${turn + 1}...`,
+        partial: "",
+        model,
+        usage: totals.usage,
+        event: { type: "turn_start", id: `turn-${turn}`, at: Date.now(), turn }
       };
-      await agent.updateProgress(turnUpdate);
+      await report(`turn-${turn}`, turnUpdate);
+
+      // Keep the prompt bounded by truncating older tool results. The step
+      // checkpoints the compacted list; the transcript keeps the raw results.
+      if (estimateTokens(messages) > CONTEXT_COMPACTION_THRESHOLD_TOKENS) {
+        const compaction = await step.do(`compact-${turn}`, async () =>
+          compactMessages(messages, COMPACTION_KEEP_RECENT_TURNS, COMPACTED_TOOL_RESULT_CHARS),
+        );
+        if (compaction.compacted > 0) {
+          messages.splice(0, messages.length, ...compaction.messages);
+          await report(`compact-${turn}`, {
+            status: "analyzing",
+            message: `Compacted context: truncated ${compaction.compacted} tool results (~${compaction.tokensBefore} to ~${compaction.tokensAfter} tokens)`,
+            event: {
+              type: "compaction",
+              id: `compact-${turn}`,
+              at: Date.now(),
+              turn,
+              compacted: compaction.compacted,
+              tokensBefore: compaction.tokensBefore,
+              tokensAfter: compaction.tokensAfter,
+            },
+          });
+        }
+      }
 
-      const stepResult = await step.do(
+      const llmStartedAt = Date.now();
+      const llmTurn = await this.completeTurn(
+        step,
+        agent,
         `llm-turn-${turn}`,
-        { retries: { limit: 3, delay: "10 seconds", backoff: "exponential" } },
-        async () => {
-          const request: ChatCompletionRequest = {
-            // Use anthropic/ prefix for unified billing compat endpoint
-            model: "anthropic/claude-sonnet-4-5-20250929",
-            max_tokens: 4096,
-            messages,
-            tools: toolDefinitions,
-          };
-          const result = await this.callAIGateway(request);
-          // Serialize for Workflow state
-          return JSON.parse(JSON.stringify(result));
+        modelChain,
+        {
+          max_tokens: generation.maxTokens,
+          temperature: generation.temperature,
+          stop: generation.stop,
+          messages,
+          tools: toolDefinitions,
         },
+        reportFallback(`fallback-${turn}`, turn),
       );
-
-      if (!isChatCompletionResponse(stepResult)) {
-        console.error("Invalid response from AI Gateway:", stepResult);
-        continue;
-      }
-      const response = stepResult;
+      const { response } = llmTurn;
+      totals.models.push(llmTurn.model);
+      totals.usage = addUsage(totals.usage, llmTurn.model, response.usage);
+      await reportResponse(turn, llmTurn, llmStartedAt);
 
       if (response.choices.length === 0) continue;
 
@@ -123,7 +404,7 @@ export class AgentWorkflow extends WorkflowEntrypoint<Env, Params> {
         content: choice.message.content,
         tool_calls: choice.message.tool_calls,
       };
-      messages.push(assistantMessage);
+      await addMessages([{ message: assistantMessage, step: llmTurn.step, retries: llmTurn.retries }]);
 
       // Check if the model is done (no tool calls)
       if (choice.finish_reason === "stop" || !choice.message.tool_calls || choice.message.tool_calls.length === 0) {
@@ -131,14 +412,41 @@ export class AgentWorkflow extends WorkflowEntrypoint<Env, Params> {
         const completeUpdate: ProgressUpdate = {
           status: "complete",
           message: "Analysis complete!",
-          result: choice.message.content ?? undefined
+          result: choice.message.content ?? undefined,
+          partial: "",
+          model: llmTurn.model,
+          usage: totals.usage
         };
-        await agent.updateProgress(completeUpdate);
+        await report("complete", completeUpdate);
 
         return {
           status: "complete",
           turns: turn + 1,
           result: choice.message.content ?? null,
+          models: totals.models,
+          usage: totals.usage,
+        };
+      }
+
+      // Stop before running more tools once the token budget is spent
+      const { tokenBudget } = event.payload;
+      if (tokenBudget !== null && totals.usage.totalTokens >= tokenBudget) {
+        const budgetUpdate: ProgressUpdate = {
+          status: "budget_exceeded",
+          message: `Token budget of ${tokenBudget} exceeded`,
+          result: choice.message.content ?? undefined,
+          partial: "",
+          model: llmTurn.model,
+          usage: totals.usage
+        };
+        await report("budget-exceeded", budgetUpdate);
+
+        return {
+          status: "budget_exceeded",
+          turns: turn + 1,
+          result: choice.message.content ?? null,
+          models: totals.models,
+          usage: totals.usage,
         };
       }
 
@@ -146,46 +454,153 @@ export class AgentWorkflow extends WorkflowEntrypoint<Env, Params> {
       const toolCalls = choice.message.tool_calls;
       if (!toolCalls) continue;
 
-      for (const toolCall of toolCalls) {
-        // Send tool usage update
-        const toolUpdate: ProgressUpdate = {
-          status: "fetching",
-          message: `Using tool: ${toolCall.function.name}...`
-        };
-        await agent.updateProgress(toolUpdate);
+      // Run the turn's tool calls concurrently, each as its own checkpointed step
+      const toolMessages = await mapWithConcurrency(
+        toolCalls,
+        event.payload.toolConcurrency,
+        async (toolCall) => {
+          const toolName = toolCall.function.name;
+          const startedAt = Date.now();
 
-        const toolResult = await step.do(
-          `tool-${turn}-${toolCall.id}`,
-          { retries: { limit: 2, delay: "5 seconds" } },
-          async () => {
-            const args: unknown = JSON.parse(toolCall.function.arguments);
-            switch (toolCall.function.name) {
-              case "search_repos":
-                if (!isSearchReposInput(args)) {
-                  return "Invalid arguments for search_repos";
-                }
-                return searchReposTool.run(args);
-              case "get_repo":
-                if (!isGetRepoInput(args)) {
-                  return "Invalid arguments for get_repo";
-                }
-                return getRepoTool.run(args);
-              default:
-                return `Unknown tool: ${toolCall.function.name}`;
+          // Send tool usage update
+          const toolUpdate: ProgressUpdate = {
+            status: "fetching",
+            message: `Using tool: ${toolName}...`,
+            event: {
+              type: "tool_start",
+              id: `tool-${turn}-${toolCall.id}`,
+              at: startedAt,
+              turn,
+              toolCallId: toolCall.id,
+              tool: toolName,
+              arguments: toolCall.function.arguments,
             }
-          },
-        );
+          };
+          await report(`tool-${turn}-${toolCall.id}`, toolUpdate);
 
-        // Add tool result as a message
-        const toolMessage: ChatMessage = {
-          role: "tool",
-          content: toolResult,
-          tool_call_id: toolCall.id,
-        };
-        messages.push(toolMessage);
-      }
+          const reportToolEnd = (result: string, error: string | null) =>
+            report(`tool-end-${turn}-${toolCall.id}`, {
+              status: "fetching",
+              message: error ? `${toolName} failed: ${error}` : `${toolName} finished`,
+              event: {
+                type: "tool_end",
+                id: `tool-end-${turn}-${toolCall.id}`,
+                at: Date.now(),
+                turn,
+                toolCallId: toolCall.id,
+                tool: toolName,
+                resultPreview: result.slice(0, EVENT_RESULT_PREVIEW_CHARS),
+                durationMs: Date.now() - startedAt,
+                error,
+              },
+            });
+
+          if (tools.requiresApproval(toolCall.function.name)) {
+            const outcome = await waitForApproval(step, agent, event.instanceId, turn, toolCall);
+            const denial = approvalDenial(toolName, outcome);
+            if (denial) {
+              await reportToolEnd(denial, "approval_denied");
+              const deniedMessage: ChatMessage = {
+                role: "tool",
+                content: denial,
+                tool_call_id: toolCall.id,
+              };
+              return { message: deniedMessage, step: `approval-${turn}-${toolCall.id}`, retries: null };
+            }
+          }
+
+          const toolStepName = `tool-${turn}-${toolCall.id}`;
+          // A lower bound on retries, like the LLM step's count in completeTurn()
+          let toolAttempts = 0;
+          let toolResult: string;
+          let toolRetries: number;
+          try {
+            ({ result: toolResult, retries: toolRetries } = await step.do(
+              toolStepName,
+              { retries: { limit: 2, delay: "5 seconds" } },
+              async () => {
+                toolAttempts++;
+                const result = await tools.execute(toolName, toolCall.function.arguments, toolContext);
+                return { result, retries: toolAttempts - 1 };
+              },
+            ));
+          } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            await reportToolEnd("", reason);
+            throw new RunError("tool_failure", `Tool ${toolName} failed: ${reason}`);
+          }
+          await reportToolEnd(toolResult, toolErrorCode(toolResult));
+
+          const toolMessage: ChatMessage = {
+            role: "tool",
+            content: toolResult,
+            tool_call_id: toolCall.id,
+          };
+          return { message: toolMessage, step: toolStepName, retries: toolRetries };
+        },
+      );
+
+      // Tool messages keep the order in which the model issued the calls
+      await addMessages(toolMessages);
     }
 
-    return { status: "max_turns_reached", turns: MAX_AGENT_TURNS };
+    // Out of turns: one last call with tools disabled so the model summarizes
+    // its findings instead of leaving the run without a result
+    await report("final-answer", {
+      status: "analyzing",
+      message: `Reached the limit of ${maxTurns} turns, writing final answer...`,
+      partial: "",
+      model,
+      usage: totals.usage
+    });
+    await addMessages([{ message: { role: "user", content: FINAL_ANSWER_PROMPT }, step: null, retries: null }]);
+
+    const finalStartedAt = Date.now();
+    const finalTurn = await this.completeTurn(
+      step,
+      agent,
+      "llm-final",
+      modelChain,
+      {
+        max_tokens: generation.maxTokens,
+        temperature: generation.temperature,
+        stop: generation.stop,
+        messages,
+        // Definitions stay so earlier tool calls in the history remain valid
+        tools: toolDefinitions,
+        tool_choice: "none",
+      },
+      reportFallback("fallback-final", maxTurns),
+    );
+    totals.models.push(finalTurn.model);
+    totals.usage = addUsage(totals.usage, finalTurn.model, finalTurn.response.usage);
+    await reportResponse(maxTurns, finalTurn, finalStartedAt);
+
+    const finalContent = finalTurn.response.choices[0]?.message.content ?? null;
+    await addMessages([
+      {
+        message: { role: "assistant", content: finalContent },
+        step: finalTurn.step,
+        retries: finalTurn.retries,
+      },
+    ]);
+
+    const maxTurnsUpdate: ProgressUpdate = {
+      status: "max_turns_reached",
+      message: `Stopped after ${maxTurns} turns`,
+      result: finalContent ?? undefined,
+      partial: "",
+      model: finalTurn.model,
+      usage: totals.usage
+    };
+    await report("max-turns-reached", maxTurnsUpdate);
+
+    return {
+      status: "max_turns_reached",
+      turns: maxTurns + 1,
+      result: finalContent,
+      models: totals.models,
+      usage: totals.usage,
+    };
   }
 }